@@ -2,7 +2,7 @@
 import { spawn } from "node:child_process";
 import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { request as httpRequest } from "node:http";
-import { join } from "node:path";
+import { extname, join, resolve as resolvePath } from "node:path";
 import { URL } from "node:url";
 
 type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
@@ -16,18 +16,44 @@ type Command =
   | "deny"
   | "cancel"
   | "mode"
+  | "model"
+  | "config"
+  | "command"
+  | "queue"
+  | "result"
+  | "history"
+  | "events"
+  | "permissions"
+  | "audit"
+  | "restart"
+  | "fork"
+  | "session"
   | "daemon"
   | "task"
   | "doctor";
 type DaemonAction = "start" | "stop" | "status";
-type AskOptions = { name: string; prompt: string; stream: boolean };
-type PermissionActionOptions = { name: string; optionId?: string };
+type AskOptions = {
+  name: string;
+  prompt: string;
+  stream: boolean;
+  sessionId?: string;
+  thoughts: boolean;
+  queue: boolean;
+  detach: boolean;
+  files: string[];
+  images: string[];
+};
+type PermissionActionOptions = { name: string; optionId?: string; requestId?: number; all: boolean };
 type TaskAction = "create" | "status" | "list" | "cancel";
 type TaskCommand =
   | { action: "create"; body: JsonValue }
   | { action: "status"; taskId: string; subtaskId?: string }
   | { action: "list" }
   | { action: "cancel"; taskId: string };
+type SessionCommand =
+  | { action: "list"; name: string }
+  | { action: "create"; name: string; sessionName?: string }
+  | { action: "delete"; name: string; sessionId: string };
 
 const DEFAULT_BASE_URL = "http://localhost:7800";
 const PID_FILE = "/tmp/acp-bridge.pid";
@@ -62,15 +88,29 @@ function parseArgs(argv: string[]): { baseUrl: string; command: Command; args: s
   if (!command) {
     printError("missing command", {
       usage: [
-        "start <type> --name <name> [--cwd <path>] [--mode <mode>]",
-        "ask <name> [--stream] <prompt>",
+        "start <type> --name <name> [--cwd <path>] [--mode <mode>] [--model <modelId>] [--session <sessionId>] [--permission-timeout <ms>] [--on-permission-timeout reject|cancel] [--restart never|on-failure|always] [--max-restarts <n>]",
+        "ask <name> [--stream | --detach] [--thoughts] [--queue] [--session <sessionId>] [--file <path>] [--image <path>] <prompt>",
         "status <name>",
         "list",
         "stop <name>",
-        "approve <name> [--option <optionId>]",
-        "deny <name> [--option <optionId>]",
+        "approve <name> [--option <optionId>] [--request <id> | --all]",
+        "deny <name> [--option <optionId>] [--request <id> | --all]",
         "cancel <name>",
         "mode <name> <mode>",
+        "model <name> <modelId>",
+        "config <name> [<optionId> <value>]",
+        "command <name> /<cmd> [args] [--stream] [--queue] [--session <sessionId>]",
+        "queue <name> [--cancel <queueId> | --clear]",
+        "result <askId> [--wait [--timeout <ms>]]",
+        "history <name> [--format json|jsonl|md] [--limit <n>] [--since <seq|iso>] [--session <sessionId>]",
+        "events [--agent <name>] [--task <taskId>] [--since <eventId>] [--follow]",
+        "permissions [<name>] [--wait] [--timeout <ms>]",
+        "audit [--agent <name>] [--decided-by human|policy|timeout|system] [--since <iso>] [--limit <n>]",
+        "restart <name>",
+        "fork <name> --as <newName> [--session <sessionId>] [--share]",
+        "session list <name>",
+        "session create <name> [--name <sessionName>]",
+        "session delete <name> <sessionId>",
         "daemon start|stop|status",
         "doctor",
         "task create <json>",
@@ -80,7 +120,7 @@ function parseArgs(argv: string[]): { baseUrl: string; command: Command; args: s
       ],
     });
   }
-  if (!["start", "ask", "status", "list", "stop", "approve", "deny", "cancel", "mode", "daemon", "task", "doctor"].includes(command)) {
+  if (!["start", "ask", "status", "list", "stop", "approve", "deny", "cancel", "mode", "model", "config", "command", "queue", "result", "history", "events", "permissions", "audit", "restart", "fork", "session", "daemon", "task", "doctor"].includes(command)) {
     printError(`unknown command: ${command}`);
   }
 
@@ -165,7 +205,18 @@ function daemonStatus(): unknown {
   return { ok: true, daemon: "running", pid };
 }
 
-function parseStartArgs(args: string[]): { type: string; name: string; cwd?: string; mode?: string } {
+function parseStartArgs(args: string[]): {
+  type: string;
+  name: string;
+  cwd?: string;
+  mode?: string;
+  model?: string;
+  sessionId?: string;
+  permissionTimeoutMs?: number;
+  permissionTimeoutOutcome?: string;
+  restartPolicy?: string;
+  maxRestarts?: number;
+} {
   const type = args.shift();
   if (!type) {
     printError("start requires <type>");
@@ -174,6 +225,12 @@ function parseStartArgs(args: string[]): { type: string; name: string; cwd?: str
   let name: string | undefined;
   let cwd: string | undefined;
   let mode: string | undefined;
+  let model: string | undefined;
+  let sessionId: string | undefined;
+  let permissionTimeoutMs: number | undefined;
+  let permissionTimeoutOutcome: string | undefined;
+  let restartPolicy: string | undefined;
+  let maxRestarts: number | undefined;
 
   while (args.length > 0) {
     const token = args.shift();
@@ -202,12 +259,66 @@ function parseStartArgs(args: string[]): { type: string; name: string; cwd?: str
     if (token === "--mode") {
       const value = args.shift();
       if (!value) {
-        printError("missing value for --mode (e.g. full-access, auto, read-only)");
+        printError("missing value for --mode (see availableModes in `status <name>`)");
       }
       mode = value;
       continue;
     }
 
+    if (token === "--model") {
+      const value = args.shift();
+      if (!value) {
+        printError("missing value for --model");
+      }
+      model = value;
+      continue;
+    }
+
+    if (token === "--session") {
+      const value = args.shift();
+      if (!value) {
+        printError("missing value for --session");
+      }
+      sessionId = value;
+      continue;
+    }
+
+    if (token === "--permission-timeout") {
+      const value = Number(args.shift());
+      if (!Number.isFinite(value) || value < 0) {
+        printError("--permission-timeout requires a non-negative number of milliseconds");
+      }
+      permissionTimeoutMs = value;
+      continue;
+    }
+
+    if (token === "--on-permission-timeout") {
+      const value = args.shift();
+      if (value !== "reject" && value !== "cancel") {
+        printError("--on-permission-timeout must be reject or cancel");
+      }
+      permissionTimeoutOutcome = value;
+      continue;
+    }
+
+    if (token === "--restart") {
+      const value = args.shift();
+      if (value !== "never" && value !== "on-failure" && value !== "always") {
+        printError("--restart must be never, on-failure or always");
+      }
+      restartPolicy = value;
+      continue;
+    }
+
+    if (token === "--max-restarts") {
+      const value = Number(args.shift());
+      if (!Number.isInteger(value) || value < 0) {
+        printError("--max-restarts requires a non-negative integer");
+      }
+      maxRestarts = value;
+      continue;
+    }
+
     printError(`unknown start option: ${token}`);
   }
 
@@ -215,15 +326,21 @@ function parseStartArgs(args: string[]): { type: string; name: string; cwd?: str
     printError("start requires --name <name>");
   }
 
-  return { type, name, cwd, mode };
+  return { type, name, cwd, mode, model, sessionId, permissionTimeoutMs, permissionTimeoutOutcome, restartPolicy, maxRestarts };
 }
 
-function parseAskArgs(args: string[]): AskOptions {
+function parseAskArgs(args: string[], command: "ask" | "command" = "ask"): AskOptions {
   const name = args.shift();
   if (!name) {
-    printError("ask requires <name>");
+    printError(`${command} requires <name>`);
   }
   let stream = false;
+  let thoughts = false;
+  let queue = false;
+  let detach = false;
+  let sessionId: string | undefined;
+  const files: string[] = [];
+  const images: string[] = [];
   const promptParts: string[] = [];
   while (args.length > 0) {
     const token = args.shift() as string;
@@ -231,13 +348,72 @@ function parseAskArgs(args: string[]): AskOptions {
       stream = true;
       continue;
     }
+    if (token === "--thoughts") {
+      thoughts = true;
+      continue;
+    }
+    if (token === "--queue") {
+      queue = true;
+      continue;
+    }
+    if (command === "ask" && token === "--detach") {
+      detach = true;
+      continue;
+    }
+    if (token === "--session") {
+      const value = args.shift();
+      if (!value) {
+        printError("missing value for --session");
+      }
+      sessionId = value;
+      continue;
+    }
+    if (command === "ask" && (token === "--file" || token === "--image")) {
+      const value = args.shift();
+      if (!value) {
+        printError(`missing value for ${token}`);
+      }
+      (token === "--file" ? files : images).push(value);
+      continue;
+    }
     promptParts.push(token);
   }
   const prompt = promptParts.join(" ").trim();
-  if (!prompt) {
-    printError("ask requires <prompt>");
+  if (!prompt && files.length === 0 && images.length === 0) {
+    printError(command === "ask" ? "ask requires <prompt>" : "command requires /<cmd>");
   }
-  return { name, prompt, stream };
+  if (detach && stream) {
+    printError("--detach cannot be combined with --stream");
+  }
+  return { name, prompt, stream, sessionId, thoughts, queue, detach, files, images };
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+function buildAskContent(parsed: AskOptions): JsonValue[] {
+  // Images are read here so screenshots need not live in the agent cwd; files are linked by path.
+  const images = parsed.images.map((path) => {
+    const mimeType = IMAGE_MIME_TYPES[extname(path).toLowerCase()];
+    if (!mimeType) {
+      printError(`unsupported image type: ${path} (expected ${Object.keys(IMAGE_MIME_TYPES).join(", ")})`);
+    }
+    let data: string;
+    try {
+      data = readFileSync(path).toString("base64");
+    } catch (error) {
+      printError(`cannot read image ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return { type: "image", data, mimeType };
+  });
+  // The daemon resolves relative paths against the agent cwd, so send them as the shell meant them.
+  const files = parsed.files.map((path) => ({ type: "resource_link", path: resolvePath(path) }));
+  return [...images, ...files];
 }
 
 function parsePermissionActionArgs(args: string[], action: "approve" | "deny"): PermissionActionOptions {
@@ -246,6 +422,8 @@ function parsePermissionActionArgs(args: string[], action: "approve" | "deny"):
     printError(`${action} requires <name>`);
   }
   let optionId: string | undefined;
+  let requestId: number | undefined;
+  let all = false;
   while (args.length > 0) {
     const token = args.shift();
     if (!token) {
@@ -259,9 +437,24 @@ function parsePermissionActionArgs(args: string[], action: "approve" | "deny"):
       optionId = value;
       continue;
     }
+    if (token === "--request") {
+      const value = Number(args.shift());
+      if (!Number.isInteger(value) || value <= 0) {
+        printError("--request requires a permission request id");
+      }
+      requestId = value;
+      continue;
+    }
+    if (token === "--all") {
+      all = true;
+      continue;
+    }
     printError(`unknown ${action} option: ${token}`);
   }
-  return { name, optionId };
+  if (all && (requestId !== undefined || optionId)) {
+    printError("--all cannot be combined with --request or --option");
+  }
+  return { name, optionId, requestId, all };
 }
 
 function parseTaskAction(args: string[]): TaskCommand {
@@ -325,6 +518,95 @@ function parseTaskAction(args: string[]): TaskCommand {
   return { action: "cancel", taskId };
 }
 
+function parseForkArgs(args: string[]): { name: string; as: string; sessionId?: string; share: boolean } {
+  const name = args.shift();
+  if (!name) {
+    printError("fork requires <name>");
+  }
+  let as: string | undefined;
+  let sessionId: string | undefined;
+  let share = false;
+  while (args.length > 0) {
+    const token = args.shift();
+    if (!token) {
+      continue;
+    }
+    if (token === "--as") {
+      const value = args.shift();
+      if (!value) {
+        printError("missing value for --as");
+      }
+      as = value;
+      continue;
+    }
+    if (token === "--session") {
+      const value = args.shift();
+      if (!value) {
+        printError("missing value for --session");
+      }
+      sessionId = value;
+      continue;
+    }
+    if (token === "--share") {
+      share = true;
+      continue;
+    }
+    printError(`unknown fork option: ${token}`);
+  }
+  if (!as) {
+    printError("fork requires --as <newName>");
+  }
+  return { name, as, sessionId, share };
+}
+
+function parseSessionAction(args: string[]): SessionCommand {
+  const action = args.shift();
+  if (!action) {
+    printError("session requires list|create|delete");
+  }
+  if (!["list", "create", "delete"].includes(action)) {
+    printError(`unknown session action: ${action}`);
+  }
+  const name = args.shift();
+  if (!name) {
+    printError(`session ${action} requires <name>`);
+  }
+
+  if (action === "list") {
+    return { action: "list", name };
+  }
+
+  if (action === "create") {
+    let sessionName: string | undefined;
+    while (args.length > 0) {
+      const token = args.shift();
+      if (!token) {
+        continue;
+      }
+      if (token === "--name") {
+        const value = args.shift();
+        if (!value) {
+          printError("missing value for --name");
+        }
+        sessionName = value;
+        continue;
+      }
+      printError(`unknown session create option: ${token}`);
+    }
+    return { action: "create", name, sessionName };
+  }
+
+  const sessionId = args.shift();
+  if (!sessionId) {
+    printError("session delete requires <sessionId>");
+  }
+  return { action: "delete", name, sessionId };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 function requestJson(
   baseUrl: string,
   method: string,
@@ -395,7 +677,12 @@ function requestJson(
   });
 }
 
-function requestSse(baseUrl: string, path: string, body?: JsonValue): Promise<unknown> {
+function requestSse(
+  baseUrl: string,
+  path: string,
+  body?: JsonValue,
+  options: { showThoughts?: boolean } = {},
+): Promise<unknown> {
   return new Promise((resolve, reject) => {
     let url: URL;
     try {
@@ -474,6 +761,32 @@ function requestSse(baseUrl: string, path: string, body?: JsonValue): Promise<un
             }
             return;
           }
+          if (event === "thought") {
+            const text = payloadData?.chunk;
+            if (options.showThoughts && typeof text === "string") {
+              process.stderr.write(text);
+            }
+            return;
+          }
+          if (event === "permission") {
+            const toolCall = payloadData?.toolCall ?? {};
+            const locations = Array.isArray(toolCall.locations) ? toolCall.locations.map((item: any) => item.path) : [];
+            process.stderr.write(
+              `\npermission requested #${payloadData?.requestId}: ${toolCall.title || toolCall.toolCallId} (${toolCall.kind ?? "other"})` +
+                `${locations.length > 0 ? ` on ${locations.join(", ")}` : ""}; run \`approve ${payloadData?.agent} --request ${payloadData?.requestId}\` or \`deny ...\`\n`,
+            );
+            return;
+          }
+          if (event === "permission_timeout") {
+            process.stderr.write(
+              `\npermission request #${payloadData?.requestId} timed out: ${payloadData?.title || payloadData?.toolCallId} (${payloadData?.outcome})\n`,
+            );
+            return;
+          }
+          if (event === "queued") {
+            process.stderr.write(`queued at position ${payloadData?.position} (id ${payloadData?.queueId})\n`);
+            return;
+          }
           if (event === "done") {
             doneResult = payloadData;
             return;
@@ -512,6 +825,63 @@ function requestSse(baseUrl: string, path: string, body?: JsonValue): Promise<un
   });
 }
 
+/** Prints each daemon event as a JSON line until the stream ends; resolves with the last event id seen. */
+function followEvents(baseUrl: string, path: string, lastEventId: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let url: URL;
+    try {
+      url = new URL(path, baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`);
+    } catch {
+      reject(new Error(`invalid base url: ${baseUrl}`));
+      return;
+    }
+
+    const req = httpRequest(
+      {
+        method: "GET",
+        protocol: url.protocol,
+        hostname: url.hostname,
+        port: url.port || undefined,
+        path: `${url.pathname}${url.search}`,
+        headers: lastEventId > 0 ? { "last-event-id": String(lastEventId) } : undefined,
+      },
+      (res) => {
+        const statusCode = res.statusCode ?? 0;
+        if (statusCode < 200 || statusCode >= 300) {
+          res.resume();
+          reject({ statusCode, data: null });
+          return;
+        }
+        let buffer = "";
+        let lastId = lastEventId;
+        res.on("data", (chunk) => {
+          buffer += Buffer.isBuffer(chunk) ? chunk.toString("utf8") : String(chunk);
+          let splitIndex = buffer.indexOf("\n\n");
+          while (splitIndex >= 0) {
+            const block = buffer.slice(0, splitIndex);
+            buffer = buffer.slice(splitIndex + 2);
+            const data = block
+              .split("\n")
+              .filter((line) => line.startsWith("data:"))
+              .map((line) => line.slice(5).trim())
+              .join("\n");
+            if (data) {
+              process.stdout.write(`${data}\n`);
+              const idLine = block.split("\n").find((line) => line.startsWith("id:"));
+              lastId = idLine ? Number(idLine.slice(3).trim()) || lastId : lastId;
+            }
+            splitIndex = buffer.indexOf("\n\n");
+          }
+        });
+        res.on("end", () => resolve(lastId));
+        res.on("error", reject);
+      },
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
 function printDoctor(result: any): void {
   const items = Array.isArray(result?.results) ? result.results : [];
   for (const item of items) {
@@ -532,6 +902,35 @@ function printDoctor(result: any): void {
   }
 }
 
+function printHistory(result: any, format: "jsonl" | "md"): void {
+  const entries = Array.isArray(result?.entries) ? result.entries : [];
+  if (format === "jsonl") {
+    for (const entry of entries) {
+      process.stdout.write(`${JSON.stringify(entry)}\n`);
+    }
+    return;
+  }
+  process.stdout.write(`# ${result?.name ?? "agent"} history\n`);
+  for (const entry of entries) {
+    if (entry.kind === "prompt") {
+      const attachments = Array.isArray(entry.attachments)
+        ? entry.attachments.map((item: any) => `\n\n_attached ${item.type}: ${item.uri ?? item.mimeType ?? ""}_`).join("")
+        : "";
+      process.stdout.write(`\n## User (${entry.at})\n\n${entry.text ?? ""}${attachments}\n`);
+    } else if (entry.kind === "message") {
+      process.stdout.write(`\n## Agent\n\n${entry.text ?? ""}\n`);
+    } else if (entry.kind === "thought") {
+      process.stdout.write(`\n${String(entry.text ?? "").split("\n").map((line) => `> ${line}`).join("\n")}\n`);
+    } else if (entry.kind === "tool_call") {
+      const toolCall = entry.toolCall ?? {};
+      process.stdout.write(`\n- tool \`${toolCall.kind ?? "other"}\`: ${toolCall.title || toolCall.toolCallId} (${toolCall.status ?? "pending"})\n`);
+    } else if (entry.kind === "stop") {
+      const detail = entry.text ? ` — ${entry.text}` : "";
+      process.stdout.write(`\n_stop: ${entry.stopReason ?? "unknown"}${detail}_\n`);
+    }
+  }
+}
+
 async function main(): Promise<void> {
   const { baseUrl, command, args } = parseArgs(process.argv.slice(2));
   const rest = [...args];
@@ -551,6 +950,24 @@ async function main(): Promise<void> {
       if (parsed.mode) {
         body.mode = parsed.mode;
       }
+      if (parsed.model) {
+        body.model = parsed.model;
+      }
+      if (parsed.sessionId) {
+        body.sessionId = parsed.sessionId;
+      }
+      if (parsed.permissionTimeoutMs !== undefined) {
+        body.permissionTimeoutMs = parsed.permissionTimeoutMs;
+      }
+      if (parsed.permissionTimeoutOutcome) {
+        body.permissionTimeoutOutcome = parsed.permissionTimeoutOutcome;
+      }
+      if (parsed.restartPolicy) {
+        body.restartPolicy = parsed.restartPolicy;
+      }
+      if (parsed.maxRestarts !== undefined) {
+        body.maxRestarts = parsed.maxRestarts;
+      }
       result = await requestJson(baseUrl, "POST", "/agents", body);
     } else if (command === "mode") {
       const name = rest.shift();
@@ -559,9 +976,242 @@ async function main(): Promise<void> {
       }
       const mode = rest.shift();
       if (!mode) {
-        printError("mode requires <mode> (e.g. full-access, auto, read-only)");
+        printError("mode requires <mode> (see availableModes in `status <name>`)");
       }
       result = await requestJson(baseUrl, "POST", `/agents/${encodeURIComponent(name)}/mode`, { mode });
+    } else if (command === "model") {
+      const name = rest.shift();
+      if (!name) {
+        printError("model requires <name>");
+      }
+      const model = rest.shift();
+      if (!model) {
+        printError("model requires <modelId> (see availableModels in `status <name>`)");
+      }
+      result = await requestJson(baseUrl, "POST", `/agents/${encodeURIComponent(name)}/model`, { model });
+    } else if (command === "queue") {
+      const name = rest.shift();
+      if (!name) {
+        printError("queue requires <name>");
+      }
+      const flag = rest.shift();
+      const path = `/agents/${encodeURIComponent(name)}/queue`;
+      if (!flag) {
+        result = await requestJson(baseUrl, "GET", path);
+      } else if (flag === "--clear") {
+        result = await requestJson(baseUrl, "DELETE", path);
+      } else if (flag === "--cancel") {
+        const queueId = rest.shift();
+        if (!queueId) {
+          printError("missing value for --cancel");
+        }
+        result = await requestJson(baseUrl, "DELETE", `${path}/${encodeURIComponent(queueId)}`);
+      } else {
+        printError(`unknown queue option: ${flag}`);
+      }
+    } else if (command === "result") {
+      const askId = rest.shift();
+      if (!askId) {
+        printError("result requires <askId>");
+      }
+      let wait = false;
+      let timeoutMs: number | undefined;
+      while (rest.length > 0) {
+        const token = rest.shift() as string;
+        if (token === "--wait") {
+          wait = true;
+          continue;
+        }
+        if (token === "--timeout") {
+          timeoutMs = Number(rest.shift());
+          if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+            printError("--timeout requires a positive number of milliseconds");
+          }
+          continue;
+        }
+        printError(`unknown result option: ${token}`);
+      }
+      const path = `/asks/${encodeURIComponent(askId)}`;
+      const deadline = timeoutMs === undefined ? Infinity : Date.now() + timeoutMs;
+      result = await requestJson(baseUrl, "GET", path);
+      while (wait && ((result as { completedAt?: string | null }).completedAt ?? null) === null) {
+        if (Date.now() >= deadline) {
+          printError(`ask ${askId} still running after ${timeoutMs}ms`);
+        }
+        await sleep(1000);
+        result = await requestJson(baseUrl, "GET", path);
+      }
+    } else if (command === "history") {
+      const name = rest.shift();
+      if (!name) {
+        printError("history requires <name>");
+      }
+      let format = "json";
+      const query = new URLSearchParams();
+      while (rest.length > 0) {
+        const token = rest.shift() as string;
+        const value = rest.shift();
+        if (!value) {
+          printError(`missing value for ${token}`);
+        }
+        if (token === "--format") {
+          if (!["json", "jsonl", "md"].includes(value)) {
+            printError(`unknown history format: ${value} (expected json, jsonl or md)`);
+          }
+          format = value;
+        } else if (token === "--limit") {
+          query.set("limit", value);
+        } else if (token === "--since") {
+          query.set("since", value);
+        } else if (token === "--session") {
+          query.set("sessionId", value);
+        } else {
+          printError(`unknown history option: ${token}`);
+        }
+      }
+      const search = query.toString();
+      result = await requestJson(baseUrl, "GET", `/agents/${encodeURIComponent(name)}/history${search ? `?${search}` : ""}`);
+      if (format !== "json") {
+        printHistory(result, format as "jsonl" | "md");
+        return;
+      }
+    } else if (command === "permissions") {
+      const name = rest[0] && !rest[0].startsWith("--") ? rest.shift() : undefined;
+      let wait = false;
+      let timeout: string | undefined;
+      while (rest.length > 0) {
+        const token = rest.shift() as string;
+        if (token === "--wait") {
+          wait = true;
+          continue;
+        }
+        if (token === "--timeout") {
+          timeout = rest.shift();
+          if (!timeout) {
+            printError("missing value for --timeout");
+          }
+          continue;
+        }
+        printError(`unknown permissions option: ${token}`);
+      }
+      if (wait) {
+        if (!name) {
+          printError("permissions --wait requires <name>");
+        }
+        const query = timeout ? `?timeout=${encodeURIComponent(timeout)}` : "";
+        result = await requestJson(baseUrl, "GET", `/agents/${encodeURIComponent(name)}/permissions/wait${query}`);
+      } else {
+        result = await requestJson(baseUrl, "GET", `/permissions${name ? `?agent=${encodeURIComponent(name)}` : ""}`);
+      }
+    } else if (command === "audit") {
+      const query = new URLSearchParams();
+      const flags: Record<string, string> = { "--agent": "agent", "--decided-by": "decidedBy", "--since": "since", "--limit": "limit" };
+      while (rest.length > 0) {
+        const token = rest.shift() as string;
+        const key = flags[token];
+        if (!key) {
+          printError(`unknown audit option: ${token}`);
+        }
+        const value = rest.shift();
+        if (!value) {
+          printError(`missing value for ${token}`);
+        }
+        query.set(key, value);
+      }
+      const search = query.toString();
+      result = await requestJson(baseUrl, "GET", `/audit/permissions${search ? `?${search}` : ""}`);
+    } else if (command === "events") {
+      const query = new URLSearchParams();
+      let follow = false;
+      let lastEventId = 0;
+      while (rest.length > 0) {
+        const token = rest.shift() as string;
+        if (token === "--follow") {
+          follow = true;
+          continue;
+        }
+        const value = rest.shift();
+        if (!value) {
+          printError(`missing value for ${token}`);
+        }
+        if (token === "--agent") {
+          query.set("agent", value);
+        } else if (token === "--task") {
+          query.set("task", value);
+        } else if (token === "--since") {
+          lastEventId = Number(value);
+          if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+            printError("--since requires an event id");
+          }
+        } else {
+          printError(`unknown events option: ${token}`);
+        }
+      }
+      if (!follow) {
+        query.set("follow", "false");
+        if (lastEventId > 0) {
+          query.set("lastEventId", String(lastEventId));
+        }
+        result = await requestJson(baseUrl, "GET", `/events?${query.toString()}`);
+      } else {
+        const search = query.toString();
+        // Reconnect after the stream drops, resuming from the last event seen.
+        for (;;) {
+          lastEventId = await followEvents(baseUrl, `/events${search ? `?${search}` : ""}`, lastEventId);
+          await sleep(1000);
+        }
+      }
+    } else if (command === "config") {
+      const name = rest.shift();
+      if (!name) {
+        printError("config requires <name>");
+      }
+      const optionId = rest.shift();
+      if (!optionId) {
+        result = await requestJson(baseUrl, "GET", `/agents/${encodeURIComponent(name)}/config`);
+      } else {
+        const value = rest.shift();
+        if (!value) {
+          printError("config requires <value> when <optionId> is given (see `config <name>`)");
+        }
+        result = await requestJson(
+          baseUrl,
+          "PUT",
+          `/agents/${encodeURIComponent(name)}/config/${encodeURIComponent(optionId)}`,
+          { value },
+        );
+      }
+    } else if (command === "restart") {
+      const name = rest.shift();
+      if (!name) {
+        printError("restart requires <name>");
+      }
+      result = await requestJson(baseUrl, "POST", `/agents/${encodeURIComponent(name)}/restart`);
+    } else if (command === "fork") {
+      const parsed = parseForkArgs(rest);
+      const body: Record<string, JsonValue> = { as: parsed.as };
+      if (parsed.sessionId) {
+        body.sessionId = parsed.sessionId;
+      }
+      if (parsed.share) {
+        body.share = true;
+      }
+      result = await requestJson(baseUrl, "POST", `/agents/${encodeURIComponent(parsed.name)}/fork`, body);
+    } else if (command === "session") {
+      const sessionCommand = parseSessionAction(rest);
+      const sessionsPath = `/agents/${encodeURIComponent(sessionCommand.name)}/sessions`;
+      if (sessionCommand.action === "list") {
+        result = await requestJson(baseUrl, "GET", sessionsPath);
+      } else if (sessionCommand.action === "create") {
+        result = await requestJson(
+          baseUrl,
+          "POST",
+          sessionsPath,
+          sessionCommand.sessionName ? { name: sessionCommand.sessionName } : undefined,
+        );
+      } else {
+        result = await requestJson(baseUrl, "DELETE", `${sessionsPath}/${encodeURIComponent(sessionCommand.sessionId)}`);
+      }
     } else if (command === "daemon") {
       const action = parseDaemonAction(rest);
       if (action === "start") {
@@ -571,18 +1221,48 @@ async function main(): Promise<void> {
       } else {
         result = daemonStatus();
       }
-    } else if (command === "ask") {
-      const parsed = parseAskArgs(rest);
-      if (parsed.stream) {
+    } else if (command === "ask" || command === "command") {
+      const parsed = parseAskArgs(rest, command);
+      if (command === "command") {
+        const commandName = parsed.prompt.split(/\s+/, 1)[0].replace(/^\//, "");
+        const listed = (await requestJson(baseUrl, "GET", `/agents/${encodeURIComponent(parsed.name)}/commands`)) as {
+          commands?: Array<{ name: string }>;
+        };
+        const available = (listed.commands || []).map((item) => item.name);
+        if (!available.includes(commandName)) {
+          printError(
+            available.length > 0
+              ? `unknown command /${commandName} for ${parsed.name} (available: ${available.map((item) => `/${item}`).join(", ")})`
+              : `agent ${parsed.name} has not advertised any commands`,
+          );
+        }
+        parsed.prompt = `/${parsed.prompt.replace(/^\//, "")}`;
+      }
+      const body: Record<string, JsonValue> = { prompt: parsed.prompt };
+      const content = buildAskContent(parsed);
+      if (content.length > 0) {
+        body.content = content;
+      }
+      if (parsed.sessionId) {
+        body.sessionId = parsed.sessionId;
+      }
+      if (parsed.thoughts) {
+        body.includeThoughts = true;
+      }
+      if (parsed.queue) {
+        body.queue = true;
+      }
+      if (parsed.detach) {
+        result = await requestJson(baseUrl, "POST", `/agents/${encodeURIComponent(parsed.name)}/asks`, body);
+      } else if (parsed.stream) {
         result = await requestSse(
           baseUrl,
           `/agents/${encodeURIComponent(parsed.name)}/ask?stream=true`,
-          { prompt: parsed.prompt },
+          body,
+          { showThoughts: parsed.thoughts },
         );
       } else {
-        result = await requestJson(baseUrl, "POST", `/agents/${encodeURIComponent(parsed.name)}/ask`, {
-          prompt: parsed.prompt,
-        });
+        result = await requestJson(baseUrl, "POST", `/agents/${encodeURIComponent(parsed.name)}/ask`, body);
       }
     } else if (command === "status") {
       const name = rest.shift();
@@ -600,7 +1280,18 @@ async function main(): Promise<void> {
       result = await requestJson(baseUrl, "DELETE", `/agents/${encodeURIComponent(name)}`);
     } else if (command === "approve" || command === "deny") {
       const parsed = parsePermissionActionArgs(rest, command);
-      result = await requestJson(baseUrl, "POST", `/agents/${encodeURIComponent(parsed.name)}/${command}`, parsed.optionId ? { optionId: parsed.optionId } : undefined);
+      const agentPath = `/agents/${encodeURIComponent(parsed.name)}`;
+      if (parsed.requestId !== undefined) {
+        const body: Record<string, JsonValue> = { decision: command };
+        if (parsed.optionId) {
+          body.optionId = parsed.optionId;
+        }
+        result = await requestJson(baseUrl, "POST", `${agentPath}/permissions/${parsed.requestId}`, body);
+      } else if (parsed.all) {
+        result = await requestJson(baseUrl, "POST", `${agentPath}/${command}`, { all: true });
+      } else {
+        result = await requestJson(baseUrl, "POST", `${agentPath}/${command}`, parsed.optionId ? { optionId: parsed.optionId } : undefined);
+      }
     } else if (command === "cancel") {
       const name = rest.shift();
       if (!name) {
@@ -1,13 +1,25 @@
 #!/usr/bin/env node
-import { execSync, spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
-import { randomUUID } from "node:crypto";
-import { existsSync, readFileSync } from "node:fs";
+import { execSync, spawn, type ChildProcess, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { createHash, randomUUID } from "node:crypto";
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  realpathSync,
+  renameSync,
+  writeFileSync,
+  type WriteStream,
+} from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { createServer, request as httpRequest, type IncomingMessage, type ServerResponse, type Server } from "node:http";
 import { request as httpsRequest } from "node:https";
-import { URL as NodeURL } from "node:url";
+import { URL as NodeURL, pathToFileURL } from "node:url";
 import { homedir } from "node:os";
-import { delimiter, join } from "node:path";
-import { Readable, Writable } from "node:stream";
+import { basename, delimiter, dirname, extname, isAbsolute, join, relative, resolve as resolvePath, sep } from "node:path";
+import { createInterface } from "node:readline";
+import { Readable, Writable, type Duplex } from "node:stream";
 import * as acp from "@agentclientprotocol/sdk";
 
 type AgentState = "starting" | "idle" | "working" | "stopped" | "error";
@@ -16,7 +28,183 @@ type PendingPermission = {
   requestId: number;
   params: acp.RequestPermissionRequest;
   requestedAt: string;
-  resolve: (response: acp.RequestPermissionResponse) => void;
+  resolve: (response: acp.RequestPermissionResponse, decidedBy: PermissionDecider) => void;
+  timer: NodeJS.Timeout | null;
+};
+
+/** `system` covers requests the bridge cancelled because their prompt was cancelled, timed out or the agent stopped. */
+type PermissionDecider = "human" | "policy" | "timeout" | "system";
+
+type PermissionAuditEntry = {
+  id: string;
+  agent: string;
+  agentType: string;
+  sessionId: string;
+  taskId: string | null;
+  requestId: number;
+  toolCall: {
+    toolCallId: string;
+    title: string | null;
+    kind: string | null;
+    locations: acp.ToolCallLocation[];
+  };
+  options: Array<{ optionId: string; name: string; kind: string }>;
+  outcome: "selected" | "cancelled";
+  optionId: string | null;
+  optionKind: string | null;
+  decidedBy: PermissionDecider;
+  rule: string | null;
+  requestedAt: string;
+  decidedAt: string;
+};
+
+type PermissionTimeoutOutcome = "reject" | "cancel";
+
+type RestartPolicy = "never" | "on-failure" | "always";
+
+type AgentExitRecord = {
+  code: number | null;
+  signal: string | null;
+  reason: string;
+  at: string;
+};
+
+type PermissionTimeoutRecord = {
+  requestId: number;
+  toolCallId: string;
+  title: string | null;
+  outcome: PermissionTimeoutOutcome;
+  optionId: string | null;
+  requestedAt: string;
+  timedOutAt: string;
+};
+
+type QueuedPrompt = {
+  id: string;
+  // Undefined targets the default session, which a restart may replace.
+  sessionRef: string | undefined;
+  prompt: string;
+  activeTask: { taskId: string; subtaskId: string } | null;
+  enqueuedAt: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+};
+
+type PermissionDecision = "allow-once" | "allow-always" | "reject" | "ask-human";
+
+type PermissionPolicyRule = {
+  agent?: string[];
+  type?: string[];
+  kind?: string[];
+  title?: string;
+  paths?: "inside-cwd" | "outside-cwd";
+  decision: PermissionDecision;
+};
+
+type StartAgentInput = {
+  type?: string;
+  name: string;
+  cwd?: string;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  mode?: string;
+  model?: string;
+  sessionId?: string;
+  permissionPolicies?: PermissionPolicyRule[];
+  permissionTimeoutMs?: number;
+  permissionTimeoutOutcome?: PermissionTimeoutOutcome;
+  restartPolicy?: RestartPolicy;
+  maxRestarts?: number;
+};
+
+type FileWriteRecord = {
+  path: string;
+  sessionId: string;
+  bytes: number;
+  created: boolean;
+  writtenAt: string;
+};
+
+type SessionStreamListener = (event: string, data: unknown) => void;
+
+type ToolCallRecord = {
+  toolCallId: string;
+  sessionId: string;
+  title: string;
+  kind: acp.ToolKind | null;
+  status: acp.ToolCallStatus | null;
+  locations: acp.ToolCallLocation[];
+  rawInput: unknown;
+  rawOutput: unknown;
+  content: acp.ToolCallContent[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+type DaemonEvent = {
+  id: number;
+  type: string;
+  agent: string | null;
+  taskId: string | null;
+  data: unknown;
+  at: string;
+};
+
+type DaemonEventListener = (event: DaemonEvent) => void;
+
+type HistoryEntryKind = "prompt" | "message" | "thought" | "tool_call" | "stop";
+
+type HistoryEntry = {
+  seq: number;
+  sessionId: string;
+  kind: HistoryEntryKind;
+  text: string | null;
+  attachments?: { type: string; uri: string | null; mimeType: string | null }[];
+  toolCall?: { toolCallId: string; title: string; kind: string | null; status: string | null };
+  stopReason?: string | null;
+  at: string;
+};
+
+type AgentPlan = {
+  sessionId: string;
+  entries: acp.PlanEntry[];
+  updatedAt: string;
+};
+
+type TerminalRecord = {
+  id: string;
+  sessionId: string;
+  command: string;
+  args: string[];
+  cwd: string;
+  child: ChildProcess;
+  output: string;
+  outputBytes: number;
+  outputByteLimit: number;
+  truncated: boolean;
+  exitStatus: { exitCode: number | null; signal: string | null } | null;
+  exited: Promise<void>;
+  createdAt: string;
+  exitedAt: string | null;
+};
+
+type AgentSession = {
+  sessionId: string;
+  name: string;
+  state: "idle" | "working";
+  currentText: string;
+  lastText: string;
+  currentThoughts: string;
+  lastThoughts: string;
+  stopReason: string | null;
+  lastError: string | null;
+  activeTask: { taskId: string; subtaskId: string } | null;
+  fileWrites: FileWriteRecord[];
+  toolCalls: ToolCallRecord[];
+  permissionTimeouts: PermissionTimeoutRecord[];
+  createdAt: string;
+  updatedAt: string;
 };
 
 type AgentRecord = {
@@ -30,11 +218,28 @@ type AgentRecord = {
   lastError: string | null;
   stderrBuffer: string[];
   protocolVersion: string | number | null;
-  lastText: string;
-  currentText: string;
-  stopReason: string | null;
+  agentCapabilities: acp.AgentCapabilities;
+  sessions: Map<string, AgentSession>;
   pendingPermissions: PendingPermission[];
-  activeTask: { taskId: string; subtaskId: string } | null;
+  fileWrites: FileWriteRecord[];
+  toolCalls: ToolCallRecord[];
+  plan: AgentPlan | null;
+  availableModes: acp.SessionMode[];
+  currentModeId: string | null;
+  availableModels: acp.ModelInfo[];
+  currentModelId: string | null;
+  configOptions: acp.SessionConfigOption[];
+  availableCommands: acp.AvailableCommand[];
+  promptQueue: QueuedPrompt[];
+  history: HistoryEntry[];
+  historySeq: number;
+  terminals: Map<string, TerminalRecord>;
+  spec: StartAgentInput;
+  restartCount: number;
+  spawnedAt: number;
+  lastExit: AgentExitRecord | null;
+  restartTimer: NodeJS.Timeout | null;
+  nextRestartAt: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -51,21 +256,32 @@ type AgentConfig = {
   args?: string[];
   env?: Record<string, string>;
   mode?: string;
+  model?: string;
+  configOptions?: Record<string, string>;
+  permissionTimeoutMs?: number;
+  permissionTimeoutOutcome?: PermissionTimeoutOutcome;
+  restartPolicy?: RestartPolicy;
+  maxRestarts?: number;
 };
 
 type BridgeConfig = {
   port?: number;
   host?: string;
+  stateDir?: string;
+  respawnAgents?: boolean;
+  allowedOrigins?: string[];
+  permissionPolicies?: PermissionPolicyRule[];
   agents?: Record<string, AgentConfig>;
 };
 
-type SubtaskState = "pending" | "running" | "done" | "error" | "cancelled";
-type TaskState = "running" | "done" | "error" | "cancelled";
+type SubtaskState = "pending" | "running" | "done" | "error" | "cancelled" | "interrupted";
+type TaskState = "running" | "done" | "error" | "cancelled" | "interrupted";
 
 type TaskSubtaskRecord = {
   id: string;
   agent: string;
   prompt: string;
+  model: string | null;
   dependsOn: string[];
   state: SubtaskState;
   result: string | null;
@@ -87,6 +303,28 @@ type TaskRecord = {
   updatedAt: string;
   cancelRequested: boolean;
   cancelController: AbortController;
+  // Loaded from the state journal; kept for TASK_RETENTION_MS instead of TASK_TTL_MS.
+  restored: boolean;
+};
+
+type PersistedAgent = {
+  spec: StartAgentInput;
+  sessionId: string;
+  sessions?: { sessionId: string; name: string }[];
+  state: AgentState;
+  lastText: string;
+  stopReason: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type PersistedState = {
+  version: 1;
+  savedAt: string;
+  agents: PersistedAgent[];
+  tasks: ReturnType<typeof toTaskStatus>[];
+  lastEventId?: number;
 };
 
 class HttpError extends Error {
@@ -101,104 +339,1002 @@ class HttpError extends Error {
 }
 
 class BridgeClient implements acp.Client {
+  // Agents may advertise commands right after session/new, before the record is registered.
+  private earlyCommands: acp.AvailableCommand[] | null = null;
+
   constructor(private readonly getRecord: () => AgentRecord | undefined) {}
 
+  takeEarlyCommands(): acp.AvailableCommand[] {
+    const commands = this.earlyCommands ?? [];
+    this.earlyCommands = null;
+    return commands;
+  }
+
+  private resolveRecord(sessionId: string): AgentRecord | undefined {
+    const record = this.getRecord();
+    if (!record || record.sessions.has(sessionId)) {
+      return record;
+    }
+    // Forked agents can share this process; route to the record that owns the session.
+    const owner = Array.from(agents.values()).find((item) => item.child === record.child && item.sessions.has(sessionId));
+    return owner ?? record;
+  }
+
   async requestPermission(
     params: acp.RequestPermissionRequest,
   ): Promise<acp.RequestPermissionResponse> {
-    const record = this.getRecord();
+    const record = this.resolveRecord(params.sessionId);
     if (!record) {
       return { outcome: { outcome: "cancelled" } };
     }
     record.updatedAt = nowIso();
-    record.state = "working";
+    const requestedAt = nowIso();
+    const automatic = applyPermissionPolicies(record, params);
+    if (automatic) {
+      const response: acp.RequestPermissionResponse = { outcome: { outcome: "selected", optionId: automatic.option.optionId } };
+      auditPermissionDecision(record, params, nextPermissionRequestId++, requestedAt, response, "policy", automatic.rule);
+      return response;
+    }
+    setAgentState(record, "working");
     return new Promise((resolve) => {
-      record.pendingPermissions.push({
+      const pending: PendingPermission = {
         requestId: nextPermissionRequestId++,
         params,
-        requestedAt: nowIso(),
-        resolve,
-      });
+        requestedAt,
+        resolve: (response, decidedBy) => {
+          if (pending.timer) {
+            clearTimeout(pending.timer);
+            pending.timer = null;
+          }
+          auditPermissionDecision(record, params, pending.requestId, requestedAt, response, decidedBy);
+          resolve(response);
+        },
+        timer: null,
+      };
+      const timeoutMs = permissionTimeoutMs(record);
+      if (timeoutMs > 0) {
+        pending.timer = setTimeout(() => expirePendingPermission(record, pending), timeoutMs);
+      }
+      record.pendingPermissions.push(pending);
+      const status = toPermissionStatus(record, pending);
+      publishSessionEvent(record.name, params.sessionId, "permission", status);
+      emitDaemonEvent("permission_requested", { agent: record.name, taskId: sessionTaskId(record, params.sessionId) }, status);
+    });
+  }
+
+  async sessionUpdate(params: acp.SessionNotification): Promise<void> {
+    const record = this.resolveRecord(params.sessionId);
+    if (!record) {
+      if (params.update.sessionUpdate === "available_commands_update") {
+        this.earlyCommands = params.update.availableCommands ?? [];
+      }
+      return;
+    }
+    const update = params.update as any;
+    record.updatedAt = new Date().toISOString();
+
+    if (update.sessionUpdate === "agent_message_chunk" || update.sessionUpdate === "agent_thought_chunk") {
+      // History replayed by session/load while restarting is not part of a new answer.
+      if (record.state === "starting") {
+        return;
+      }
+      const session = record.sessions.get(params.sessionId);
+      const text = update.content?.type === "text" ? update.content.text : "";
+      if (!session || !text) {
+        return;
+      }
+      session.updatedAt = record.updatedAt;
+      appendHistoryText(record, session.sessionId, update.sessionUpdate === "agent_thought_chunk" ? "thought" : "message", text);
+      if (update.sessionUpdate === "agent_thought_chunk") {
+        session.currentThoughts += text;
+        session.lastThoughts = session.currentThoughts;
+        publishSessionEvent(record.name, session.sessionId, "thought", { chunk: text });
+        return;
+      }
+      session.currentText += text;
+      session.lastText = session.currentText;
+      publishSessionEvent(record.name, session.sessionId, "chunk", { chunk: text });
+      return;
+    }
+
+    if (update.sessionUpdate === "tool_call" || update.sessionUpdate === "tool_call_update") {
+      // Tool calls replayed by session/load while restarting already happened.
+      if (record.state === "starting") {
+        return;
+      }
+      if (update.sessionUpdate === "tool_call") {
+        setAgentState(record, "working");
+      }
+      const toolCall = upsertToolCall(record, params.sessionId, update);
+      recordToolCallHistory(record, toolCall);
+      emitDaemonEvent(
+        "tool_call",
+        { agent: record.name, taskId: sessionTaskId(record, params.sessionId) },
+        {
+          sessionId: params.sessionId,
+          toolCallId: toolCall.toolCallId,
+          title: toolCall.title,
+          kind: toolCall.kind,
+          status: toolCall.status,
+          locations: toolCall.locations,
+        },
+      );
+      return;
+    }
+
+    if (update.sessionUpdate === "current_mode_update") {
+      if (params.sessionId === record.sessionId && typeof update.currentModeId === "string") {
+        record.currentModeId = update.currentModeId;
+      }
+      return;
+    }
+
+    if (update.sessionUpdate === "available_commands_update") {
+      record.availableCommands = Array.isArray(update.availableCommands) ? update.availableCommands : [];
+      return;
+    }
+
+    if (update.sessionUpdate === "config_option_update") {
+      // Each update carries the full set of options with their current values.
+      if (params.sessionId === record.sessionId && Array.isArray(update.configOptions)) {
+        record.configOptions = update.configOptions;
+      }
+      return;
+    }
+
+    if (update.sessionUpdate === "plan") {
+      // A plan replayed by session/load while restarting is not the current one.
+      if (record.state === "starting") {
+        return;
+      }
+      // Each plan update carries the complete list of entries.
+      record.plan = {
+        sessionId: params.sessionId,
+        entries: Array.isArray(update.entries) ? update.entries : [],
+        updatedAt: record.updatedAt,
+      };
+      publishSessionEvent(record.name, params.sessionId, "plan", toPlanStatus(record.plan));
+      return;
+    }
+  }
+
+  async readTextFile(params: acp.ReadTextFileRequest): Promise<acp.ReadTextFileResponse> {
+    const record = this.resolveRecord(params.sessionId);
+    if (!record) {
+      throw acp.RequestError.invalidParams(undefined, "agent is not registered");
+    }
+    const path = resolveConfinedPath(record.cwd, params.path);
+    let content: string;
+    try {
+      content = await readFile(path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw acp.RequestError.resourceNotFound(params.path);
+      }
+      throw error;
+    }
+    if (params.line == null && params.limit == null) {
+      return { content };
+    }
+    const lines = content.split("\n");
+    const start = Math.max((params.line ?? 1) - 1, 0);
+    const end = params.limit == null ? undefined : start + Math.max(params.limit, 0);
+    return { content: lines.slice(start, end).join("\n") };
+  }
+
+  async writeTextFile(params: acp.WriteTextFileRequest): Promise<acp.WriteTextFileResponse> {
+    const record = this.resolveRecord(params.sessionId);
+    if (!record) {
+      throw acp.RequestError.invalidParams(undefined, "agent is not registered");
+    }
+    const path = resolveConfinedPath(record.cwd, params.path);
+    const created = !existsSync(path);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, params.content, "utf8");
+    recordFileWrite(record, {
+      path,
+      sessionId: params.sessionId,
+      bytes: Buffer.byteLength(params.content, "utf8"),
+      created,
+      writtenAt: nowIso(),
+    });
+    return {};
+  }
+
+  async createTerminal(params: acp.CreateTerminalRequest): Promise<acp.CreateTerminalResponse> {
+    const record = this.resolveRecord(params.sessionId);
+    if (!record) {
+      throw acp.RequestError.invalidParams(undefined, "agent is not registered");
+    }
+    const terminal = createTerminal(record, params);
+    return { terminalId: terminal.id };
+  }
+
+  async terminalOutput(params: acp.TerminalOutputRequest): Promise<acp.TerminalOutputResponse> {
+    const terminal = this.getTerminal(params.sessionId, params.terminalId);
+    return {
+      output: terminal.output,
+      truncated: terminal.truncated,
+      exitStatus: terminal.exitStatus,
+    };
+  }
+
+  async waitForTerminalExit(params: acp.WaitForTerminalExitRequest): Promise<acp.WaitForTerminalExitResponse> {
+    const terminal = this.getTerminal(params.sessionId, params.terminalId);
+    await terminal.exited;
+    return { ...terminal.exitStatus };
+  }
+
+  async killTerminal(params: acp.KillTerminalCommandRequest): Promise<acp.KillTerminalCommandResponse> {
+    const terminal = this.getTerminal(params.sessionId, params.terminalId);
+    if (!terminal.exitStatus) {
+      terminal.child.kill("SIGTERM");
+    }
+    return {};
+  }
+
+  async releaseTerminal(params: acp.ReleaseTerminalRequest): Promise<acp.ReleaseTerminalResponse> {
+    const record = this.resolveRecord(params.sessionId);
+    const terminal = this.getTerminal(params.sessionId, params.terminalId);
+    if (!terminal.exitStatus) {
+      terminal.child.kill("SIGKILL");
+    }
+    record?.terminals.delete(terminal.id);
+    return {};
+  }
+
+  private getTerminal(sessionId: string, terminalId: string): TerminalRecord {
+    const terminal = this.resolveRecord(sessionId)?.terminals.get(terminalId);
+    if (!terminal || terminal.sessionId !== sessionId) {
+      throw acp.RequestError.resourceNotFound(terminalId);
+    }
+    return terminal;
+  }
+}
+
+const agents = new Map<string, AgentRecord>();
+const tasks = new Map<string, TaskRecord>();
+const askJobs = new Map<string, AskJob>();
+const bridgeConfig = loadConfig();
+const configPermissionPolicies = loadConfigPermissionPolicies();
+const streamSubscribers = new Map<string, Set<SessionStreamListener>>();
+const daemonEventListeners = new Set<DaemonEventListener>();
+const recentDaemonEvents: DaemonEvent[] = [];
+let nextDaemonEventId = 1;
+const webSocketPeers = new Set<WebSocketPeer>();
+let nextPermissionRequestId = 1;
+const MAX_COMPLETED_TASKS = parsePositiveIntegerEnv("ACP_BRIDGE_MAX_TASKS", 100);
+const TASK_TTL_MS = parsePositiveIntegerEnv("ACP_BRIDGE_TASK_TTL_MS", 3600000);
+const TASK_RETENTION_MS = parsePositiveIntegerEnv("ACP_BRIDGE_TASK_RETENTION_MS", 604800000);
+const MAX_COMPLETED_ASKS = parsePositiveIntegerEnv("ACP_BRIDGE_MAX_ASKS", 100);
+const MAX_STDERR_LINES = 50;
+const MAX_FILE_WRITES = 200;
+const DEFAULT_TERMINAL_OUTPUT_BYTES = 1024 * 1024;
+const MAX_TOOL_CALLS = 200;
+const MAX_RECENT_EVENTS = 1000;
+const EVENT_HEARTBEAT_MS = 15000;
+const DEFAULT_PERMISSION_WAIT_MS = 30000;
+const MAX_PERMISSION_WAIT_MS = 300000;
+const DEFAULT_MAX_RESTARTS = 5;
+const RESTART_BACKOFF_MS = parsePositiveIntegerEnv("ACP_BRIDGE_RESTART_BACKOFF_MS", 1000);
+const MAX_RESTART_BACKOFF_MS = 60000;
+const RESTART_STABLE_MS = parsePositiveIntegerEnv("ACP_BRIDGE_RESTART_STABLE_MS", 300000);
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_WEBSOCKET_MESSAGE_BYTES = 16 * 1024 * 1024;
+const MAX_HISTORY_ENTRIES = parsePositiveIntegerEnv("ACP_BRIDGE_MAX_HISTORY", 1000);
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".md": "text/markdown",
+  ".json": "application/json",
+  ".html": "text/html",
+  ".css": "text/css",
+  ".js": "text/javascript",
+  ".ts": "text/x-typescript",
+  ".py": "text/x-python",
+};
+const ENDPOINT_TIMEOUT_MS = 5000;
+const STATE_FILE_NAME = "state.json";
+const PERMISSION_AUDIT_FILE_NAME = "permissions-audit.jsonl";
+const STATE_FLUSH_DELAY_MS = 250;
+let stateFlushTimer: NodeJS.Timeout | null = null;
+let statePersistenceEnabled = true;
+let permissionAuditStream: WriteStream | null = null;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function parsePositiveIntegerEnv(name: string, fallback: number): number {
+  const raw = Number(process.env[name] ?? String(fallback));
+  if (!Number.isFinite(raw) || raw <= 0) {
+    return fallback;
+  }
+  return Math.floor(raw);
+}
+
+function expandHomePath(input: string): string {
+  if (input.startsWith("~/")) {
+    return join(homedir(), input.slice(2));
+  }
+  return input;
+}
+
+function loadConfig(): BridgeConfig {
+  const configPath = join(homedir(), ".config", "acp-bridge", "config.json");
+  if (!existsSync(configPath)) {
+    return {};
+  }
+  try {
+    const raw = readFileSync(configPath, "utf8");
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object") {
+      return {};
+    }
+    return parsed as BridgeConfig;
+  } catch (error) {
+    process.stderr.write(
+      JSON.stringify({
+        ok: false,
+        event: "config_error",
+        path: configPath,
+        error: error instanceof Error ? error.message : String(error),
+      }) + "\n",
+    );
+    return {};
+  }
+}
+
+function loadConfigPermissionPolicies(): PermissionPolicyRule[] {
+  try {
+    return normalizePermissionPolicies(bridgeConfig.permissionPolicies);
+  } catch (error) {
+    process.stderr.write(
+      JSON.stringify({
+        ok: false,
+        event: "config_error",
+        field: "permissionPolicies",
+        error: error instanceof Error ? error.message : String(error),
+      }) + "\n",
+    );
+    return [];
+  }
+}
+
+function resolveStateDir(): string {
+  const configured = process.env.ACP_BRIDGE_STATE_DIR || bridgeConfig.stateDir;
+  if (configured) {
+    return expandHomePath(configured);
+  }
+  const base = process.env.XDG_STATE_HOME || join(homedir(), ".local", "state");
+  return join(base, "acp-bridge");
+}
+
+/**
+ * Browsers send `Origin` on WebSocket upgrades but do not apply CORS to them, so any page could drive the
+ * daemon. Only loopback pages and origins listed in ACP_BRIDGE_ALLOWED_ORIGINS / `allowedOrigins` may connect;
+ * clients that send no `Origin` (CLIs, scripts) are not browsers and are let through.
+ */
+function isAllowedOrigin(origin: string | undefined): boolean {
+  if (origin === undefined) {
+    return true;
+  }
+  const configured = process.env.ACP_BRIDGE_ALLOWED_ORIGINS
+    ? process.env.ACP_BRIDGE_ALLOWED_ORIGINS.split(",").map((item) => item.trim()).filter(Boolean)
+    : bridgeConfig.allowedOrigins ?? [];
+  if (configured.includes(origin)) {
+    return true;
+  }
+  let hostname: string;
+  try {
+    hostname = new NodeURL(origin).hostname;
+  } catch {
+    return false;
+  }
+  return hostname === "localhost" || hostname === "[::1]" || /^127(\.\d{1,3}){3}$/.test(hostname);
+}
+
+function shouldRespawnAgents(): boolean {
+  const raw = process.env.ACP_BRIDGE_RESPAWN_AGENTS;
+  if (raw !== undefined) {
+    return raw === "1" || raw === "true";
+  }
+  return bridgeConfig.respawnAgents === true;
+}
+
+function snapshotState(): PersistedState {
+  return {
+    version: 1,
+    savedAt: nowIso(),
+    agents: Array.from(agents.values()).map((record) => ({
+      spec: record.spec,
+      sessionId: record.sessionId,
+      sessions: Array.from(record.sessions.values())
+        .filter((session) => session.sessionId !== record.sessionId)
+        .map((session) => ({ sessionId: session.sessionId, name: session.name })),
+      state: record.state,
+      lastText: defaultSession(record)?.lastText ?? "",
+      stopReason: defaultSession(record)?.stopReason ?? null,
+      lastError: record.lastError,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    })),
+    tasks: Array.from(tasks.values()).map((task) => toTaskStatus(task)),
+    lastEventId: nextDaemonEventId - 1,
+  };
+}
+
+function flushState(): void {
+  const dir = resolveStateDir();
+  const path = join(dir, STATE_FILE_NAME);
+  try {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+    const tmpPath = `${path}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(snapshotState()), { encoding: "utf8", mode: 0o600 });
+    renameSync(tmpPath, path);
+  } catch (error) {
+    process.stderr.write(
+      JSON.stringify({
+        ok: false,
+        event: "state_write_error",
+        path,
+        error: error instanceof Error ? error.message : String(error),
+      }) + "\n",
+    );
+  }
+}
+
+function scheduleStateFlush(): void {
+  if (!statePersistenceEnabled || stateFlushTimer) {
+    return;
+  }
+  stateFlushTimer = setTimeout(() => {
+    stateFlushTimer = null;
+    flushState();
+  }, STATE_FLUSH_DELAY_MS);
+}
+
+function loadPersistedState(): PersistedState | null {
+  const path = join(resolveStateDir(), STATE_FILE_NAME);
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf8"));
+    if (!parsed || typeof parsed !== "object" || parsed.version !== 1) {
+      return null;
+    }
+    return {
+      version: 1,
+      savedAt: typeof parsed.savedAt === "string" ? parsed.savedAt : nowIso(),
+      agents: Array.isArray(parsed.agents) ? parsed.agents : [],
+      tasks: Array.isArray(parsed.tasks) ? parsed.tasks : [],
+      lastEventId: Number.isInteger(parsed.lastEventId) ? parsed.lastEventId : 0,
+    };
+  } catch (error) {
+    process.stderr.write(
+      JSON.stringify({
+        ok: false,
+        event: "state_load_error",
+        path,
+        error: error instanceof Error ? error.message : String(error),
+      }) + "\n",
+    );
+    return null;
+  }
+}
+
+function isInsideDirectory(root: string, target: string): boolean {
+  const rel = relative(root, target);
+  return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+/** Follows symlinks on the longest existing prefix of `path`, keeping the missing tail as-is. */
+function realPathOfNearestAncestor(path: string): string {
+  let existing = path;
+  while (!existsSync(existing) && dirname(existing) !== existing) {
+    existing = dirname(existing);
+  }
+  return join(realpathSync(existing), relative(existing, path));
+}
+
+function resolveConfinedPath(cwd: string, requested: string): string {
+  if (typeof requested !== "string" || !requested) {
+    throw acp.RequestError.invalidParams(undefined, "path is required");
+  }
+  const root = realpathSync(cwd);
+  const resolved = resolvePath(root, requested);
+  // Follow symlinks on the longest existing prefix so links cannot escape the root.
+  const real = realPathOfNearestAncestor(resolved);
+  if (!isInsideDirectory(root, resolved) || !isInsideDirectory(root, real)) {
+    throw acp.RequestError.invalidParams({ path: requested }, `path is outside the agent cwd (${cwd})`);
+  }
+  return real;
+}
+
+function guessMimeType(path: string, fallback: string): string {
+  return MIME_TYPES[extname(path).toLowerCase()] ?? fallback;
+}
+
+function confinedPromptPath(record: AgentRecord, requested: unknown): string {
+  try {
+    return resolveConfinedPath(record.cwd, requested as string);
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : String(error), { path: requested });
+  }
+}
+
+async function readPromptFile(path: string, encoding: "utf8" | "base64"): Promise<string> {
+  try {
+    return await readFile(path, encoding);
+  } catch (error) {
+    throw new HttpError(400, `cannot read ${path}: ${(error as NodeJS.ErrnoException).code ?? String(error)}`);
+  }
+}
+
+/**
+ * Turns the `content` array of an ask body into ACP content blocks. Blocks may name a
+ * `path` inside the agent cwd instead of inlining data; kinds the agent did not opt into
+ * via `promptCapabilities` are rejected.
+ */
+async function buildPromptContent(name: string, raw: unknown): Promise<acp.ContentBlock[]> {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    throw new HttpError(400, "content must be an array of content blocks");
+  }
+  const record = agents.get(name);
+  if (!record) {
+    throw new HttpError(404, `Agent not found: ${name}`);
+  }
+  const capabilities: acp.PromptCapabilities = record.agentCapabilities?.promptCapabilities ?? {};
+  const blocks: acp.ContentBlock[] = [];
+  for (const item of raw) {
+    const block = item && typeof item === "object" ? (item as Record<string, any>) : {};
+    if (block.type === "text") {
+      if (typeof block.text !== "string") {
+        throw new HttpError(400, "text block requires 'text'");
+      }
+      blocks.push({ type: "text", text: block.text });
+      continue;
+    }
+    if (block.type === "image" || block.type === "audio") {
+      if (!capabilities[block.type]) {
+        throw new HttpError(400, `agent ${name} does not accept ${block.type} prompts`);
+      }
+      if (typeof block.path === "string") {
+        const path = confinedPromptPath(record, block.path);
+        blocks.push({
+          type: block.type,
+          data: await readPromptFile(path, "base64"),
+          mimeType: typeof block.mimeType === "string" ? block.mimeType : guessMimeType(path, "application/octet-stream"),
+        });
+        continue;
+      }
+      if (typeof block.data !== "string" || typeof block.mimeType !== "string") {
+        throw new HttpError(400, `${block.type} block requires 'path' or 'data' and 'mimeType'`);
+      }
+      blocks.push({ type: block.type, data: block.data, mimeType: block.mimeType });
+      continue;
+    }
+    if (block.type === "resource_link") {
+      if (typeof block.path === "string") {
+        const path = confinedPromptPath(record, block.path);
+        blocks.push({
+          type: "resource_link",
+          uri: pathToFileURL(path).href,
+          name: typeof block.name === "string" ? block.name : basename(path),
+          mimeType: guessMimeType(path, "text/plain"),
+        });
+        continue;
+      }
+      if (typeof block.uri !== "string" || typeof block.name !== "string") {
+        throw new HttpError(400, "resource_link block requires 'path' or 'uri' and 'name'");
+      }
+      blocks.push(block as acp.ContentBlock);
+      continue;
+    }
+    if (block.type === "resource") {
+      if (!capabilities.embeddedContext) {
+        throw new HttpError(400, `agent ${name} does not accept embedded resources`);
+      }
+      if (typeof block.path === "string") {
+        const path = confinedPromptPath(record, block.path);
+        blocks.push({
+          type: "resource",
+          resource: {
+            uri: pathToFileURL(path).href,
+            text: await readPromptFile(path, "utf8"),
+            mimeType: guessMimeType(path, "text/plain"),
+          },
+        });
+        continue;
+      }
+      if (!block.resource || typeof block.resource.uri !== "string") {
+        throw new HttpError(400, "resource block requires 'path' or 'resource.uri'");
+      }
+      blocks.push(block as acp.ContentBlock);
+      continue;
+    }
+    throw new HttpError(400, `unsupported content block type: ${String(block.type)}`);
+  }
+  return blocks;
+}
+
+function recordFileWrite(record: AgentRecord, write: FileWriteRecord): void {
+  record.fileWrites.push(write);
+  if (record.fileWrites.length > MAX_FILE_WRITES) {
+    record.fileWrites.splice(0, record.fileWrites.length - MAX_FILE_WRITES);
+  }
+  record.sessions.get(write.sessionId)?.fileWrites.push(write);
+  record.updatedAt = write.writtenAt;
+}
+
+function upsertToolCall(record: AgentRecord, sessionId: string, update: acp.ToolCall | acp.ToolCallUpdate): ToolCallRecord {
+  const now = nowIso();
+  let toolCall = record.toolCalls.find((item) => item.sessionId === sessionId && item.toolCallId === update.toolCallId);
+  if (!toolCall) {
+    toolCall = {
+      toolCallId: update.toolCallId,
+      sessionId,
+      title: "",
+      kind: null,
+      status: null,
+      locations: [],
+      rawInput: null,
+      rawOutput: null,
+      content: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    record.toolCalls.push(toolCall);
+    if (record.toolCalls.length > MAX_TOOL_CALLS) {
+      record.toolCalls.splice(0, record.toolCalls.length - MAX_TOOL_CALLS);
+    }
+    record.sessions.get(sessionId)?.toolCalls.push(toolCall);
+  }
+  // Updates only carry the fields that changed; collections are replaced wholesale.
+  if (update.title != null) {
+    toolCall.title = update.title;
+  }
+  if (update.kind != null) {
+    toolCall.kind = update.kind;
+  }
+  if (update.status != null) {
+    toolCall.status = update.status;
+  }
+  if (update.locations != null) {
+    toolCall.locations = update.locations;
+  }
+  if (update.content != null) {
+    toolCall.content = update.content;
+  }
+  if (update.rawInput !== undefined) {
+    toolCall.rawInput = update.rawInput;
+  }
+  if (update.rawOutput !== undefined) {
+    toolCall.rawOutput = update.rawOutput;
+  }
+  toolCall.updatedAt = now;
+  return toolCall;
+}
+
+function pushHistoryEntry(record: AgentRecord, entry: Omit<HistoryEntry, "seq" | "at">): HistoryEntry {
+  record.historySeq += 1;
+  const stored: HistoryEntry = { seq: record.historySeq, ...entry, at: nowIso() };
+  record.history.push(stored);
+  if (record.history.length > MAX_HISTORY_ENTRIES) {
+    record.history.splice(0, record.history.length - MAX_HISTORY_ENTRIES);
+  }
+  return stored;
+}
+
+/** Streamed chunks extend the latest entry of the same kind so a turn reads as whole messages. */
+function appendHistoryText(record: AgentRecord, sessionId: string, kind: "message" | "thought", text: string): void {
+  // Sessions interleave, so merge into this session's latest entry rather than the global last one.
+  let last: HistoryEntry | undefined;
+  for (let index = record.history.length - 1; index >= 0 && !last; index -= 1) {
+    if (record.history[index].sessionId === sessionId) {
+      last = record.history[index];
+    }
+  }
+  if (last && last.kind === kind) {
+    last.text = `${last.text ?? ""}${text}`;
+    return;
+  }
+  pushHistoryEntry(record, { sessionId, kind, text });
+}
+
+function recordToolCallHistory(record: AgentRecord, toolCall: ToolCallRecord): void {
+  const snapshot = { toolCallId: toolCall.toolCallId, title: toolCall.title, kind: toolCall.kind, status: toolCall.status };
+  // Only look back to the turn's prompt; agents may reuse tool call ids across turns.
+  for (let index = record.history.length - 1; index >= 0; index -= 1) {
+    const entry = record.history[index];
+    if (entry.sessionId !== toolCall.sessionId) {
+      continue;
+    }
+    if (entry.kind === "prompt") {
+      break;
+    }
+    if (entry.kind === "tool_call" && entry.toolCall?.toolCallId === toolCall.toolCallId) {
+      entry.toolCall = snapshot;
+      return;
+    }
+  }
+  pushHistoryEntry(record, { sessionId: toolCall.sessionId, kind: "tool_call", text: null, toolCall: snapshot });
+}
+
+function recordPromptHistory(record: AgentRecord, sessionId: string, prompt: string, content: acp.ContentBlock[]): void {
+  const attachments = content
+    .filter((block) => block.type !== "text")
+    .map((block) => ({
+      type: block.type,
+      uri: block.type === "resource_link" ? block.uri : block.type === "resource" ? block.resource.uri : null,
+      mimeType: "mimeType" in block ? (block.mimeType ?? null) : null,
+    }));
+  const text = [prompt, ...content.flatMap((block) => (block.type === "text" ? [block.text] : []))].filter(Boolean).join("\n");
+  pushHistoryEntry(record, { sessionId, kind: "prompt", text, ...(attachments.length > 0 ? { attachments } : {}) });
+}
+
+function queryHistory(record: AgentRecord, query: { limit?: number; since?: string; sessionId?: string }): HistoryEntry[] {
+  // `since` is either a sequence number from a previous response or an ISO timestamp.
+  const sinceSeq = query.since && /^\d+$/.test(query.since) ? Number(query.since) : null;
+  const sinceMs = query.since && sinceSeq === null ? Date.parse(query.since) : NaN;
+  const entries = record.history.filter(
+    (entry) =>
+      (!query.sessionId || entry.sessionId === query.sessionId) &&
+      (sinceSeq === null || entry.seq > sinceSeq) &&
+      (Number.isNaN(sinceMs) || Date.parse(entry.at) > sinceMs),
+  );
+  return query.limit ? entries.slice(-query.limit) : entries;
+}
+
+function applySessionState(
+  record: AgentRecord,
+  response: {
+    modes?: acp.SessionModeState | null;
+    models?: acp.SessionModelState | null;
+    configOptions?: acp.SessionConfigOption[] | null;
+  },
+): void {
+  if (response.modes) {
+    record.availableModes = Array.isArray(response.modes.availableModes) ? response.modes.availableModes : [];
+    record.currentModeId = response.modes.currentModeId ?? null;
+  }
+  if (response.models) {
+    record.availableModels = Array.isArray(response.models.availableModels) ? response.models.availableModels : [];
+    record.currentModelId = response.models.currentModelId ?? null;
+  }
+  if (Array.isArray(response.configOptions)) {
+    record.configOptions = response.configOptions;
+  }
+}
+
+function configOptionValues(option: acp.SessionConfigOption): acp.SessionConfigSelectOption[] {
+  // Select options are either a flat list or a list of named groups.
+  return (option.options as Array<acp.SessionConfigSelectOption | acp.SessionConfigSelectGroup>).flatMap((item) =>
+    "group" in item ? item.options : [item],
+  );
+}
+
+function toConfigOptionStatus(option: acp.SessionConfigOption) {
+  return {
+    id: option.id,
+    name: option.name,
+    description: option.description ?? null,
+    category: option.category ?? null,
+    type: option.type,
+    currentValue: option.currentValue,
+    values: configOptionValues(option).map((value) => ({
+      value: value.value,
+      name: value.name,
+      description: value.description ?? null,
+    })),
+  };
+}
+
+function validateConfigValue(record: AgentRecord, optionId: string, value: string): void {
+  const option = record.configOptions.find((item) => item.id === optionId);
+  if (!option) {
+    throw new HttpError(404, `unknown config option '${optionId}' for agent ${record.name}`, {
+      configOptions: record.configOptions.map((item) => item.id),
+    });
+  }
+  const values = configOptionValues(option).map((item) => item.value);
+  if (values.length > 0 && !values.includes(value)) {
+    throw new HttpError(400, `invalid value '${value}' for config option '${optionId}'; allowed: ${values.join(", ")}`, {
+      values,
     });
   }
+}
 
-  async sessionUpdate(params: acp.SessionNotification): Promise<void> {
-    const record = this.getRecord();
-    if (!record) {
-      return;
-    }
-    const update = params.update as any;
-    record.updatedAt = new Date().toISOString();
-
-    if (update.sessionUpdate === "agent_message_chunk") {
-      const text = update.content?.type === "text" ? update.content.text : "";
-      if (text) {
-        record.currentText += text;
-        record.lastText = record.currentText;
-        publishChunk(record.name, text);
-      }
-      return;
-    }
+async function setAgentConfigOption(
+  record: AgentRecord,
+  session: AgentSession,
+  optionId: string,
+  value: string,
+): Promise<acp.SessionConfigOption[]> {
+  validateConfigValue(record, optionId, value);
+  let response: acp.SetSessionConfigOptionResponse;
+  try {
+    response = await record.connection.setSessionConfigOption({
+      sessionId: session.sessionId,
+      configId: optionId,
+      value,
+    });
+  } catch (error) {
+    throw new HttpError(500, `setSessionConfigOption failed: ${error instanceof Error ? error.message : JSON.stringify(error)}`);
+  }
+  const configOptions = Array.isArray(response?.configOptions) ? response.configOptions : [];
+  if (session.sessionId === record.sessionId) {
+    record.configOptions = configOptions;
+  }
+  record.updatedAt = nowIso();
+  return configOptions;
+}
 
-    if (update.sessionUpdate === "tool_call") {
-      record.state = "working";
-      return;
-    }
+function validateModeId(record: AgentRecord, modeId: string): void {
+  if (record.availableModes.length === 0 || record.availableModes.some((mode) => mode.id === modeId)) {
+    return;
   }
+  const available = record.availableModes.map((mode) => mode.id);
+  throw new HttpError(400, `unknown mode '${modeId}' for agent ${record.name}; available: ${available.join(", ")}`, {
+    availableModes: record.availableModes.map((mode) => ({ id: mode.id, name: mode.name })),
+  });
 }
 
-const agents = new Map<string, AgentRecord>();
-const tasks = new Map<string, TaskRecord>();
-const bridgeConfig = loadConfig();
-const chunkSubscribers = new Map<string, Set<(chunk: string) => void>>();
-let nextPermissionRequestId = 1;
-const MAX_COMPLETED_TASKS = parsePositiveIntegerEnv("ACP_BRIDGE_MAX_TASKS", 100);
-const TASK_TTL_MS = parsePositiveIntegerEnv("ACP_BRIDGE_TASK_TTL_MS", 3600000);
-const MAX_STDERR_LINES = 50;
-const ENDPOINT_TIMEOUT_MS = 5000;
+function validateModelId(record: AgentRecord, modelId: string): void {
+  if (record.availableModels.length === 0 || record.availableModels.some((model) => model.modelId === modelId)) {
+    return;
+  }
+  const available = record.availableModels.map((model) => model.modelId);
+  throw new HttpError(400, `unknown model '${modelId}' for agent ${record.name}; available: ${available.join(", ")}`, {
+    availableModels: record.availableModels.map((model) => ({ modelId: model.modelId, name: model.name })),
+  });
+}
 
-function nowIso(): string {
-  return new Date().toISOString();
+async function setAgentModel(record: AgentRecord, session: AgentSession, modelId: string): Promise<void> {
+  validateModelId(record, modelId);
+  try {
+    await record.connection.unstable_setSessionModel({
+      sessionId: session.sessionId,
+      modelId,
+    });
+  } catch (error) {
+    throw new HttpError(500, `setSessionModel failed: ${error instanceof Error ? error.message : JSON.stringify(error)}`);
+  }
+  if (session.sessionId === record.sessionId) {
+    record.currentModelId = modelId;
+  }
+  record.updatedAt = nowIso();
 }
 
-function parsePositiveIntegerEnv(name: string, fallback: number): number {
-  const raw = Number(process.env[name] ?? String(fallback));
-  if (!Number.isFinite(raw) || raw <= 0) {
-    return fallback;
+function toPlanStatus(plan: AgentPlan | null) {
+  if (!plan) {
+    return null;
   }
-  return Math.floor(raw);
+  return {
+    sessionId: plan.sessionId,
+    total: plan.entries.length,
+    completed: plan.entries.filter((entry) => entry.status === "completed").length,
+    inProgress: plan.entries.filter((entry) => entry.status === "in_progress").length,
+    entries: plan.entries.map((entry) => ({
+      content: entry.content,
+      priority: entry.priority,
+      status: entry.status,
+    })),
+    updatedAt: plan.updatedAt,
+  };
 }
 
-function expandHomePath(input: string): string {
-  if (input.startsWith("~/")) {
-    return join(homedir(), input.slice(2));
+function appendTerminalOutput(terminal: TerminalRecord, chunk: string): void {
+  terminal.output += chunk;
+  terminal.outputBytes += Buffer.byteLength(chunk, "utf8");
+  if (terminal.outputBytes <= terminal.outputByteLimit) {
+    return;
   }
-  return input;
+  const bytes = Buffer.from(terminal.output, "utf8");
+  // Truncate from the beginning, skipping UTF-8 continuation bytes to stay on a character boundary.
+  let start = bytes.length - terminal.outputByteLimit;
+  while (start < bytes.length && (bytes[start] & 0xc0) === 0x80) {
+    start += 1;
+  }
+  terminal.output = bytes.subarray(start).toString("utf8");
+  terminal.outputBytes = bytes.length - start;
+  terminal.truncated = true;
 }
 
-function loadConfig(): BridgeConfig {
-  const configPath = join(homedir(), ".config", "acp-bridge", "config.json");
-  if (!existsSync(configPath)) {
-    return {};
+function createTerminal(record: AgentRecord, params: acp.CreateTerminalRequest): TerminalRecord {
+  const cwd = params.cwd ? resolveConfinedPath(record.cwd, params.cwd) : record.cwd;
+  // Terminals run with the same environment as the agent itself, plus what the agent asks for.
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    ...(bridgeConfig.agents?.[record.type]?.env || {}),
+    ...(record.spec.env || {}),
+  };
+  for (const variable of params.env ?? []) {
+    env[variable.name] = variable.value;
   }
-  try {
-    const raw = readFileSync(configPath, "utf8");
-    const parsed = JSON.parse(raw);
-    if (!parsed || typeof parsed !== "object") {
-      return {};
+  const args = params.args ?? [];
+  const child = spawn(params.command, args, {
+    cwd,
+    env,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  let markExited: () => void = () => {};
+  const terminal: TerminalRecord = {
+    id: randomUUID(),
+    sessionId: params.sessionId,
+    command: params.command,
+    args,
+    cwd,
+    child,
+    output: "",
+    outputBytes: 0,
+    outputByteLimit:
+      typeof params.outputByteLimit === "number" && params.outputByteLimit >= 0
+        ? params.outputByteLimit
+        : DEFAULT_TERMINAL_OUTPUT_BYTES,
+    truncated: false,
+    exitStatus: null,
+    exited: new Promise<void>((resolve) => {
+      markExited = resolve;
+    }),
+    createdAt: nowIso(),
+    exitedAt: null,
+  };
+
+  // Decode per stream so multibyte characters split across chunks stay intact.
+  const onData = (data: string) => appendTerminalOutput(terminal, data);
+  child.stdout?.setEncoding("utf8").on("data", onData);
+  child.stderr?.setEncoding("utf8").on("data", onData);
+  child.once("error", (error) => {
+    appendTerminalOutput(terminal, `${error.message}\n`);
+    terminal.exitStatus = terminal.exitStatus ?? { exitCode: null, signal: null };
+    terminal.exitedAt = terminal.exitedAt ?? nowIso();
+    markExited();
+  });
+  child.once("close", (code, signal) => {
+    terminal.exitStatus = terminal.exitStatus ?? { exitCode: code, signal: signal ?? null };
+    terminal.exitedAt = terminal.exitedAt ?? nowIso();
+    markExited();
+  });
+
+  record.terminals.set(terminal.id, terminal);
+  record.updatedAt = nowIso();
+  return terminal;
+}
+
+function releaseAllTerminals(record: AgentRecord): void {
+  for (const terminal of record.terminals.values()) {
+    if (!terminal.exitStatus) {
+      terminal.child.kill("SIGKILL");
     }
-    return parsed as BridgeConfig;
-  } catch (error) {
-    process.stderr.write(
-      JSON.stringify({
-        ok: false,
-        event: "config_error",
-        path: configPath,
-        error: error instanceof Error ? error.message : String(error),
-      }) + "\n",
-    );
-    return {};
   }
+  record.terminals.clear();
+}
+
+function toTerminalStatus(terminal: TerminalRecord) {
+  return {
+    id: terminal.id,
+    sessionId: terminal.sessionId,
+    command: terminal.command,
+    args: terminal.args,
+    cwd: terminal.cwd,
+    running: terminal.exitStatus === null,
+    exitStatus: terminal.exitStatus,
+    outputBytes: terminal.outputBytes,
+    outputByteLimit: terminal.outputByteLimit,
+    truncated: terminal.truncated,
+    createdAt: terminal.createdAt,
+    exitedAt: terminal.exitedAt,
+  };
 }
 
 function pushStderrLine(buffer: string[], line: string): void {
@@ -431,56 +1567,525 @@ function writeJson(res: ServerResponse, status: number, body: unknown): void {
   res.end(JSON.stringify(body));
 }
 
-function writeSse(res: ServerResponse, event: string, data: unknown): void {
-  res.write(`event: ${event}\n`);
-  res.write(`data: ${JSON.stringify(data)}\n\n`);
+function writeSse(res: ServerResponse, event: string, data: unknown, id?: number): void {
+  if (id !== undefined) {
+    res.write(`id: ${id}\n`);
+  }
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+function requestUrl(req: IncomingMessage): URL {
+  return new URL(req.url ?? "/", "http://127.0.0.1");
+}
+
+function pathParts(req: IncomingMessage): string[] {
+  const pathname = requestUrl(req).pathname;
+  return pathname.split("/").filter(Boolean);
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  if (chunks.length === 0) {
+    return {};
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+function createSessionRecord(sessionId: string, name?: string): AgentSession {
+  const created = nowIso();
+  return {
+    sessionId,
+    name: name || sessionId,
+    state: "idle",
+    currentText: "",
+    lastText: "",
+    currentThoughts: "",
+    lastThoughts: "",
+    stopReason: null,
+    lastError: null,
+    activeTask: null,
+    fileWrites: [],
+    toolCalls: [],
+    permissionTimeouts: [],
+    createdAt: created,
+    updatedAt: created,
+  };
+}
+
+function defaultSession(record: AgentRecord): AgentSession | undefined {
+  return record.sessions.get(record.sessionId);
+}
+
+function findAgentSession(record: AgentRecord, idOrName?: string): AgentSession | undefined {
+  if (!idOrName) {
+    return defaultSession(record);
+  }
+  const byId = record.sessions.get(idOrName);
+  if (byId) {
+    return byId;
+  }
+  return Array.from(record.sessions.values()).find((session) => session.name === idOrName);
+}
+
+/** Derives the agent state from its sessions: working if any is busy, error while any session's last prompt failed. */
+function refreshAgentState(record: AgentRecord): void {
+  if (record.state === "starting" || record.state === "stopped") {
+    return;
+  }
+  // Once the process is gone its error is not the sessions' to clear.
+  if (record.child.exitCode !== null || record.child.signalCode !== null) {
+    return;
+  }
+  const sessions = Array.from(record.sessions.values());
+  const busy = sessions.some((session) => session.state === "working") || record.pendingPermissions.length > 0;
+  const failed = sessions.some((session) => session.lastError !== null);
+  setAgentState(record, busy ? "working" : failed ? "error" : "idle");
+}
+
+function toQueueStatus(record: AgentRecord) {
+  return record.promptQueue.map((item, index) => ({
+    id: item.id,
+    position: index + 1,
+    sessionId: findAgentSession(record, item.sessionRef)?.sessionId ?? item.sessionRef ?? null,
+    prompt: item.prompt.length > 200 ? `${item.prompt.slice(0, 200)}...` : item.prompt,
+    activeTask: item.activeTask,
+    enqueuedAt: item.enqueuedAt,
+  }));
+}
+
+function waitInPromptQueue(
+  record: AgentRecord,
+  item: Omit<QueuedPrompt, "id" | "enqueuedAt" | "resolve" | "reject">,
+  onQueued?: (id: string, position: number) => void,
+  front = false,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const queued: QueuedPrompt = { ...item, id: randomUUID(), enqueuedAt: nowIso(), resolve, reject };
+    if (front) {
+      record.promptQueue.unshift(queued);
+    } else {
+      record.promptQueue.push(queued);
+    }
+    onQueued?.(queued.id, record.promptQueue.indexOf(queued) + 1);
+  });
+}
+
+/** Releases the oldest queued ask for every session that is idle; asks for one session stay in FIFO order. */
+function dispatchPromptQueue(record: AgentRecord): void {
+  if (record.state === "starting" || record.state === "stopped" || record.restartTimer) {
+    return;
+  }
+  const claimed = new Set<string>();
+  for (const item of [...record.promptQueue]) {
+    const session = findAgentSession(record, item.sessionRef);
+    if (!session) {
+      record.promptQueue.splice(record.promptQueue.indexOf(item), 1);
+      item.reject(new HttpError(404, `Session not found: ${item.sessionRef}`));
+      continue;
+    }
+    if (claimed.has(session.sessionId)) {
+      continue;
+    }
+    claimed.add(session.sessionId);
+    if (session.state === "idle") {
+      record.promptQueue.splice(record.promptQueue.indexOf(item), 1);
+      item.resolve();
+    }
+  }
+}
+
+function cancelQueuedPrompts(record: AgentRecord, reason: string, match: (item: QueuedPrompt) => boolean = () => true): number {
+  const cancelled = record.promptQueue.filter(match);
+  record.promptQueue = record.promptQueue.filter((item) => !match(item));
+  for (const item of cancelled) {
+    item.reject(new HttpError(409, reason));
+  }
+  return cancelled.length;
+}
+
+function toSessionStatus(session: AgentSession) {
+  return {
+    sessionId: session.sessionId,
+    name: session.name,
+    state: session.state,
+    lastText: session.lastText,
+    lastThoughts: session.lastThoughts,
+    stopReason: session.stopReason,
+    lastError: session.lastError,
+    activeTask: session.activeTask,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+function toStatus(record: AgentRecord) {
+  const session = defaultSession(record);
+  return {
+    name: record.name,
+    type: record.type,
+    cwd: record.cwd,
+    state: record.state,
+    sessionId: record.sessionId,
+    protocolVersion: record.protocolVersion,
+    capabilities: {
+      loadSession: Boolean(record.agentCapabilities.loadSession || record.agentCapabilities.sessionCapabilities?.resume),
+    },
+    lastError: record.lastError,
+    recentStderr: [...record.stderrBuffer],
+    lastText: session?.lastText ?? "",
+    lastThoughts: session?.lastThoughts ?? "",
+    stopReason: session?.stopReason ?? null,
+    sessions: Array.from(record.sessions.values()).map((item) => toSessionStatus(item)),
+    fileWrites: [...record.fileWrites],
+    plan: toPlanStatus(record.plan),
+    currentModeId: record.currentModeId,
+    availableModes: record.availableModes.map((mode) => ({
+      id: mode.id,
+      name: mode.name,
+      description: mode.description ?? null,
+    })),
+    configOptions: record.configOptions.map((option) => ({
+      id: option.id,
+      name: option.name,
+      currentValue: option.currentValue,
+    })),
+    currentModelId: record.currentModelId,
+    availableModels: record.availableModels.map((model) => ({
+      modelId: model.modelId,
+      name: model.name,
+      description: model.description ?? null,
+    })),
+    pendingPermissions: record.pendingPermissions.map((item) => toPermissionStatus(record, item)),
+    queueLength: record.promptQueue.length,
+    restartPolicy: restartPolicy(record),
+    restartCount: record.restartCount,
+    maxRestarts: maxRestarts(record),
+    nextRestartAt: record.nextRestartAt,
+    lastExit: record.lastExit,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+function describePermissionToolCall(record: AgentRecord, params: acp.RequestPermissionRequest) {
+  const requested = params.toolCall;
+  // The request may only carry the tool call id; fill in what earlier tool_call updates reported.
+  const known = record.toolCalls.find(
+    (item) => item.sessionId === params.sessionId && item.toolCallId === requested.toolCallId,
+  );
+  return {
+    toolCallId: requested.toolCallId,
+    title: requested.title ?? known?.title ?? null,
+    kind: requested.kind ?? known?.kind ?? null,
+    locations: requested.locations ?? known?.locations ?? [],
+  };
+}
+
+function toPermissionStatus(record: AgentRecord, pending: PendingPermission) {
+  return {
+    agent: record.name,
+    requestId: pending.requestId,
+    requestedAt: pending.requestedAt,
+    sessionId: pending.params.sessionId,
+    toolCall: describePermissionToolCall(record, pending.params),
+    options: pending.params.options.map((option) => ({
+      optionId: option.optionId,
+      kind: option.kind,
+      name: option.name,
+    })),
+  };
+}
+
+const PERMISSION_DECISIONS: PermissionDecision[] = ["allow-once", "allow-always", "reject", "ask-human"];
+
+/** Validates policy rules from config.json or a `POST /agents` body; matchers accept a string or a list. */
+function normalizePermissionPolicies(raw: unknown): PermissionPolicyRule[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    throw new HttpError(400, "permissionPolicies must be an array");
+  }
+  return raw.map((item, index) => {
+    const rule = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+    if (!PERMISSION_DECISIONS.includes(rule.decision as PermissionDecision)) {
+      throw new HttpError(400, `permissionPolicies[${index}].decision must be one of ${PERMISSION_DECISIONS.join(", ")}`);
+    }
+    const list = (field: string): string[] | undefined => {
+      const value = rule[field];
+      if (value === undefined) {
+        return undefined;
+      }
+      const values = Array.isArray(value) ? value : [value];
+      if (values.length === 0 || values.some((entry) => typeof entry !== "string")) {
+        throw new HttpError(400, `permissionPolicies[${index}].${field} must be a string or a list of strings`);
+      }
+      return values as string[];
+    };
+    if (rule.title !== undefined) {
+      try {
+        new RegExp(String(rule.title));
+      } catch {
+        throw new HttpError(400, `permissionPolicies[${index}].title is not a valid regular expression`);
+      }
+    }
+    if (rule.paths !== undefined && rule.paths !== "inside-cwd" && rule.paths !== "outside-cwd") {
+      throw new HttpError(400, `permissionPolicies[${index}].paths must be inside-cwd or outside-cwd`);
+    }
+    return {
+      agent: list("agent"),
+      type: list("type"),
+      kind: list("kind"),
+      title: rule.title === undefined ? undefined : String(rule.title),
+      paths: rule.paths as PermissionPolicyRule["paths"],
+      decision: rule.decision as PermissionDecision,
+    };
+  });
+}
+
+function matchesPermissionPolicy(
+  rule: PermissionPolicyRule,
+  record: AgentRecord,
+  toolCall: ReturnType<typeof describePermissionToolCall>,
+): boolean {
+  if (rule.agent && !rule.agent.includes(record.name)) {
+    return false;
+  }
+  if (rule.type && !rule.type.includes(record.type)) {
+    return false;
+  }
+  if (rule.kind && !rule.kind.includes(toolCall.kind ?? "other")) {
+    return false;
+  }
+  if (rule.title && !new RegExp(rule.title, "i").test(toolCall.title ?? "")) {
+    return false;
+  }
+  if (rule.paths) {
+    // A path rule never matches a tool call that names no files.
+    if (toolCall.locations.length === 0) {
+      return false;
+    }
+    let inside: boolean;
+    try {
+      // Compare real paths so a symlink inside the cwd cannot pass for an inside location.
+      const root = realpathSync(record.cwd);
+      inside = toolCall.locations.every((location) =>
+        isInsideDirectory(root, realPathOfNearestAncestor(resolvePath(record.cwd, location.path))),
+      );
+    } catch {
+      return false;
+    }
+    if (inside !== (rule.paths === "inside-cwd")) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Evaluates the agent's own policies, then the config.json ones; the first matching rule wins.
+ * Returns the option to select, or null when a human has to decide.
+ */
+function applyPermissionPolicies(
+  record: AgentRecord,
+  params: acp.RequestPermissionRequest,
+): { option: acp.PermissionOption; rule: string } | null {
+  const toolCall = describePermissionToolCall(record, params);
+  const agentRules = record.spec.permissionPolicies ?? [];
+  const rules = [...agentRules, ...configPermissionPolicies];
+  const index = rules.findIndex((rule) => matchesPermissionPolicy(rule, record, toolCall));
+  const rule = rules[index];
+  if (!rule || rule.decision === "ask-human") {
+    return null;
+  }
+  const preferred: acp.PermissionOptionKind[] =
+    rule.decision === "allow-once"
+      ? ["allow_once", "allow_always"]
+      : rule.decision === "allow-always"
+        ? ["allow_always", "allow_once"]
+        : ["reject_once", "reject_always"];
+  // Agents that offer no option of the wanted kind fall back to a human decision.
+  const option = preferred.map((kind) => params.options.find((item) => item.kind === kind)).find(Boolean) ?? null;
+  const decision = {
+    agent: record.name,
+    sessionId: params.sessionId,
+    toolCall,
+    decision: rule.decision,
+    optionId: option?.optionId ?? null,
+    rule: index < agentRules.length ? `agent[${index}]` : `config[${index - agentRules.length}]`,
+  };
+  if (!option) {
+    return null;
+  }
+  process.stdout.write(JSON.stringify({ ok: true, event: "permission_auto_decision", ...decision }) + "\n");
+  emitDaemonEvent("permission_auto_decided", { agent: record.name, taskId: sessionTaskId(record, params.sessionId) }, decision);
+  return { option, rule: decision.rule };
+}
+
+/** Appends one line per answered permission request to the audit log in the state directory. */
+function auditPermissionDecision(
+  record: AgentRecord,
+  params: acp.RequestPermissionRequest,
+  requestId: number,
+  requestedAt: string,
+  response: acp.RequestPermissionResponse,
+  decidedBy: PermissionDecider,
+  rule: string | null = null,
+): void {
+  const optionId = response.outcome.outcome === "selected" ? response.outcome.optionId : null;
+  const entry: PermissionAuditEntry = {
+    id: randomUUID(),
+    agent: record.name,
+    agentType: record.type,
+    sessionId: params.sessionId,
+    taskId: sessionTaskId(record, params.sessionId),
+    requestId,
+    toolCall: describePermissionToolCall(record, params),
+    options: params.options.map((option) => ({ optionId: option.optionId, name: option.name, kind: option.kind })),
+    outcome: response.outcome.outcome,
+    optionId,
+    optionKind: params.options.find((option) => option.optionId === optionId)?.kind ?? null,
+    decidedBy,
+    rule,
+    requestedAt,
+    decidedAt: nowIso(),
+  };
+  const stream = permissionAuditWriter();
+  if (stream) {
+    stream.write(JSON.stringify(entry) + "\n");
+  }
+}
+
+function logAuditWriteError(path: string, error: unknown): void {
+  process.stderr.write(
+    JSON.stringify({
+      ok: false,
+      event: "audit_write_error",
+      path,
+      error: error instanceof Error ? error.message : String(error),
+    }) + "\n",
+  );
 }
 
-function requestUrl(req: IncomingMessage): URL {
-  return new URL(req.url ?? "/", "http://127.0.0.1");
+/** Opens the audit log for appending on first use; a failed stream is dropped and reopened by the next write. */
+function permissionAuditWriter(): WriteStream | null {
+  if (permissionAuditStream) {
+    return permissionAuditStream;
+  }
+  const dir = resolveStateDir();
+  const path = join(dir, PERMISSION_AUDIT_FILE_NAME);
+  try {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  } catch (error) {
+    logAuditWriteError(path, error);
+    return null;
+  }
+  const stream = createWriteStream(path, { flags: "a", encoding: "utf8", mode: 0o600 });
+  stream.on("error", (error) => {
+    logAuditWriteError(path, error);
+    if (permissionAuditStream === stream) {
+      permissionAuditStream = null;
+    }
+  });
+  permissionAuditStream = stream;
+  return stream;
 }
 
-function pathParts(req: IncomingMessage): string[] {
-  const pathname = requestUrl(req).pathname;
-  return pathname.split("/").filter(Boolean);
+function closePermissionAudit(): Promise<void> {
+  const stream = permissionAuditStream;
+  permissionAuditStream = null;
+  if (!stream) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    stream.once("error", () => resolve());
+    stream.end(() => resolve());
+  });
 }
 
-async function readJson(req: IncomingMessage): Promise<any> {
-  const chunks: Buffer[] = [];
-  for await (const chunk of req) {
-    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+/**
+ * Streams the audit log line by line. With `since`, returns the first `limit` matches after it and stops reading
+ * there, so callers can page forward; without it, keeps only the most recent `limit` matches in memory.
+ */
+async function readPermissionAudit(query: {
+  agent?: string;
+  sessionId?: string;
+  decidedBy?: string;
+  since?: string;
+  limit?: number;
+}): Promise<PermissionAuditEntry[]> {
+  const path = join(resolveStateDir(), PERMISSION_AUDIT_FILE_NAME);
+  if (!existsSync(path)) {
+    return [];
   }
-  if (chunks.length === 0) {
-    return {};
+  const sinceMs = query.since ? Date.parse(query.since) : NaN;
+  const entries: PermissionAuditEntry[] = [];
+  const input = createReadStream(path, { encoding: "utf8" });
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      let entry: PermissionAuditEntry;
+      try {
+        entry = JSON.parse(line) as PermissionAuditEntry;
+      } catch {
+        // A line cut short by a crash should not hide the rest of the log.
+        continue;
+      }
+      if (
+        (query.agent && entry.agent !== query.agent) ||
+        (query.sessionId && entry.sessionId !== query.sessionId) ||
+        (query.decidedBy && entry.decidedBy !== query.decidedBy) ||
+        (!Number.isNaN(sinceMs) && !(Date.parse(entry.decidedAt) > sinceMs))
+      ) {
+        continue;
+      }
+      entries.push(entry);
+      if (!query.limit) {
+        continue;
+      }
+      if (!Number.isNaN(sinceMs) && entries.length >= query.limit) {
+        break;
+      }
+      if (entries.length > query.limit) {
+        entries.shift();
+      }
+    }
+  } finally {
+    lines.close();
+    input.destroy();
   }
-  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  return entries;
 }
 
-function toStatus(record: AgentRecord) {
-  return {
-    name: record.name,
-    type: record.type,
-    cwd: record.cwd,
-    state: record.state,
-    sessionId: record.sessionId,
-    protocolVersion: record.protocolVersion,
-    lastError: record.lastError,
-    recentStderr: [...record.stderrBuffer],
-    lastText: record.lastText,
-    stopReason: record.stopReason,
-    pendingPermissions: record.pendingPermissions.map((item) => ({
-      requestId: item.requestId,
-      requestedAt: item.requestedAt,
-      sessionId: item.params.sessionId,
-      options: item.params.options.map((option) => ({
-        optionId: option.optionId,
-        kind: option.kind,
-        name: option.name,
-      })),
-    })),
-    createdAt: record.createdAt,
-    updatedAt: record.updatedAt,
-  };
+function waitForPermission(record: AgentRecord, timeoutMs: number, res: ServerResponse): Promise<PendingPermission | null> {
+  if (record.pendingPermissions.length > 0) {
+    return Promise.resolve(record.pendingPermissions[0]);
+  }
+  return new Promise((resolve) => {
+    const finish = (pending: PendingPermission | null) => {
+      clearTimeout(timer);
+      daemonEventListeners.delete(listener);
+      res.off("close", onClose);
+      resolve(pending);
+    };
+    const listener: DaemonEventListener = (event) => {
+      if (event.type === "permission_requested" && event.agent === record.name) {
+        const requestId = (event.data as { requestId: number }).requestId;
+        finish(record.pendingPermissions.find((item) => item.requestId === requestId) ?? null);
+      }
+    };
+    const onClose = () => finish(null);
+    const timer = setTimeout(() => finish(null), timeoutMs);
+    daemonEventListeners.add(listener);
+    res.on("close", onClose);
+  });
 }
 
 function findPermissionOptionId(
@@ -507,29 +2112,35 @@ function findPermissionOptionId(
   return params.options[0]?.optionId ?? null;
 }
 
+/** Resolves the request with the given id, or the oldest pending one when no id is passed. */
 function resolvePendingPermission(
   record: AgentRecord,
   decision: "approve" | "deny" | "cancel",
   explicitOptionId?: string,
+  requestId?: number,
 ): PendingPermission | null {
-  const pending = record.pendingPermissions.shift();
-  if (!pending) {
+  const index = requestId === undefined ? 0 : record.pendingPermissions.findIndex((item) => item.requestId === requestId);
+  if (index < 0 || index >= record.pendingPermissions.length) {
     return null;
   }
+  const [pending] = record.pendingPermissions.splice(index, 1);
 
   if (decision === "cancel") {
-    pending.resolve({ outcome: { outcome: "cancelled" } });
+    pending.resolve({ outcome: { outcome: "cancelled" } }, "human");
   } else {
     const optionId = findPermissionOptionId(pending.params, decision, explicitOptionId);
     if (optionId) {
-      pending.resolve({
-        outcome: {
-          outcome: "selected",
-          optionId,
+      pending.resolve(
+        {
+          outcome: {
+            outcome: "selected",
+            optionId,
+          },
         },
-      });
+        "human",
+      );
     } else {
-      pending.resolve({ outcome: { outcome: "cancelled" } });
+      pending.resolve({ outcome: { outcome: "cancelled" } }, "human");
     }
   }
 
@@ -537,16 +2148,108 @@ function resolvePendingPermission(
   return pending;
 }
 
-function cancelAllPendingPermissions(record: AgentRecord): number {
-  let count = 0;
-  while (resolvePendingPermission(record, "cancel")) {
-    count += 1;
+function resolveAllPendingPermissions(record: AgentRecord, decision: "approve" | "deny"): number[] {
+  const requestIds: number[] = [];
+  while (record.pendingPermissions.length > 0) {
+    requestIds.push(resolvePendingPermission(record, decision).requestId);
+  }
+  return requestIds;
+}
+
+function permissionTimeoutMs(record: AgentRecord): number {
+  const configured = record.spec.permissionTimeoutMs ?? bridgeConfig.agents?.[record.type]?.permissionTimeoutMs;
+  const raw = Number(configured ?? process.env.ACP_BRIDGE_PERMISSION_TIMEOUT_MS ?? 0);
+  return Number.isFinite(raw) && raw > 0 ? raw : 0;
+}
+
+function validatePermissionTimeout(input: StartAgentInput): void {
+  if (
+    input.permissionTimeoutMs !== undefined &&
+    (typeof input.permissionTimeoutMs !== "number" || !Number.isFinite(input.permissionTimeoutMs) || input.permissionTimeoutMs < 0)
+  ) {
+    throw new HttpError(400, "permissionTimeoutMs must be a non-negative number");
+  }
+  if (
+    input.permissionTimeoutOutcome !== undefined &&
+    input.permissionTimeoutOutcome !== "reject" &&
+    input.permissionTimeoutOutcome !== "cancel"
+  ) {
+    throw new HttpError(400, "permissionTimeoutOutcome must be reject or cancel");
+  }
+}
+
+/** Answers a request nobody decided on in time with the agent's configured outcome and records it on the session. */
+function expirePendingPermission(record: AgentRecord, pending: PendingPermission): void {
+  pending.timer = null;
+  if (!record.pendingPermissions.includes(pending)) {
+    return;
+  }
+  record.pendingPermissions = record.pendingPermissions.filter((item) => item !== pending);
+  const outcome =
+    record.spec.permissionTimeoutOutcome ?? bridgeConfig.agents?.[record.type]?.permissionTimeoutOutcome ?? "reject";
+  // Agents that offer no reject option get a cancellation instead.
+  const rejectOption = pending.params.options.find((option) => option.kind.startsWith("reject"));
+  const optionId = outcome === "reject" ? rejectOption?.optionId ?? null : null;
+  pending.resolve(optionId ? { outcome: { outcome: "selected", optionId } } : { outcome: { outcome: "cancelled" } }, "timeout");
+
+  const toolCall = describePermissionToolCall(record, pending.params);
+  const timeout: PermissionTimeoutRecord = {
+    requestId: pending.requestId,
+    toolCallId: toolCall.toolCallId,
+    title: toolCall.title,
+    outcome: optionId ? "reject" : "cancel",
+    optionId,
+    requestedAt: pending.requestedAt,
+    timedOutAt: nowIso(),
+  };
+  record.sessions.get(pending.params.sessionId)?.permissionTimeouts.push(timeout);
+  record.updatedAt = nowIso();
+  process.stdout.write(
+    JSON.stringify({ ok: true, event: "permission_timeout", agent: record.name, sessionId: pending.params.sessionId, ...timeout }) +
+      "\n",
+  );
+  publishSessionEvent(record.name, pending.params.sessionId, "permission_timeout", timeout);
+  emitDaemonEvent(
+    "permission_timeout",
+    { agent: record.name, taskId: sessionTaskId(record, pending.params.sessionId) },
+    { agent: record.name, sessionId: pending.params.sessionId, ...timeout },
+  );
+}
+
+function cancelAllPendingPermissions(record: AgentRecord, sessionId?: string): number {
+  const cancelled = record.pendingPermissions.filter((item) => !sessionId || item.params.sessionId === sessionId);
+  if (cancelled.length === 0) {
+    return 0;
+  }
+  record.pendingPermissions = record.pendingPermissions.filter((item) => !cancelled.includes(item));
+  for (const pending of cancelled) {
+    pending.resolve({ outcome: { outcome: "cancelled" } }, "system");
+  }
+  record.updatedAt = nowIso();
+  return cancelled.length;
+}
+
+/** Cancels the given session, or every working session (the default one when none is working). */
+async function cancelAgentPrompts(
+  record: AgentRecord,
+  requested?: AgentSession,
+): Promise<{ sessionIds: string[]; cancelledPermissions: number }> {
+  const working = Array.from(record.sessions.values()).filter((session) => session.state === "working");
+  const targets = requested ? [requested] : working.length > 0 ? working : [defaultSession(record)].filter(Boolean);
+  let cancelledPermissions = 0;
+  for (const session of targets) {
+    await record.connection.cancel({ sessionId: session.sessionId } as any);
+    cancelledPermissions += cancelAllPendingPermissions(record, session.sessionId);
+    session.state = "idle";
+    session.updatedAt = nowIso();
   }
-  return count;
+  record.updatedAt = nowIso();
+  refreshAgentState(record);
+  return { sessionIds: targets.map((session) => session.sessionId), cancelledPermissions };
 }
 
 function isSubtaskTerminal(state: SubtaskState): boolean {
-  return state === "done" || state === "error" || state === "cancelled";
+  return state === "done" || state === "error" || state === "cancelled" || state === "interrupted";
 }
 
 function findTaskSubtask(task: TaskRecord, subtaskId: string): TaskSubtaskRecord | undefined {
@@ -564,6 +2267,7 @@ function toTaskStatus(task: TaskRecord) {
       id: subtask.id,
       agent: subtask.agent,
       prompt: subtask.prompt,
+      model: subtask.model,
       dependsOn: subtask.dependsOn,
       state: subtask.state,
       result: subtask.result,
@@ -582,28 +2286,42 @@ function refreshTaskState(task: TaskRecord): void {
     return;
   }
   if (task.subtasks.some((item) => item.state === "pending" || item.state === "running")) {
-    task.state = "running";
-    task.updatedAt = nowIso();
+    setTaskState(task, "running");
     return;
   }
 
   if (task.subtasks.length > 0 && task.subtasks.every((item) => item.state === "done")) {
-    task.state = "done";
+    setTaskState(task, "done");
+  } else if (
+    task.subtasks.some((item) => item.state === "interrupted") &&
+    task.subtasks.every((item) => isSubtaskTerminal(item.state))
+  ) {
+    setTaskState(task, "interrupted");
   } else if (
     task.subtasks.some((item) => item.state === "error") &&
-    task.subtasks.every((item) => item.state === "done" || item.state === "error" || item.state === "cancelled")
+    task.subtasks.every((item) => isSubtaskTerminal(item.state))
   ) {
-    task.state = "error";
+    setTaskState(task, "error");
   } else if (task.subtasks.length > 0 && task.subtasks.every((item) => item.state === "cancelled")) {
-    task.state = "cancelled";
+    setTaskState(task, "cancelled");
   } else {
-    task.state = "running";
+    setTaskState(task, "running");
   }
+  scheduleStateFlush();
+}
+
+/** Every task state change goes through here so `task_completed` fires once, on the transition to a terminal state. */
+function setTaskState(task: TaskRecord, state: TaskState): void {
+  const previous = task.state;
+  task.state = state;
   task.updatedAt = nowIso();
+  if (state !== previous && isTaskTerminal(state)) {
+    emitDaemonEvent("task_completed", { taskId: task.id }, { taskId: task.id, name: task.name, state });
+  }
 }
 
 function isTaskTerminal(state: TaskState): boolean {
-  return state === "done" || state === "error" || state === "cancelled";
+  return state === "done" || state === "error" || state === "cancelled" || state === "interrupted";
 }
 
 function taskUpdatedAtMs(task: TaskRecord): number {
@@ -617,24 +2335,27 @@ function taskUpdatedAtMs(task: TaskRecord): number {
 function cleanupCompletedTasks(): void {
   const now = Date.now();
   const terminal = Array.from(tasks.values()).filter((task) => isTaskTerminal(task.state));
-  const expiryThreshold = now - TASK_TTL_MS;
 
+  let removed = 0;
   for (const task of terminal) {
-    if (taskUpdatedAtMs(task) <= expiryThreshold) {
+    if (taskUpdatedAtMs(task) <= now - (task.restored ? TASK_RETENTION_MS : TASK_TTL_MS)) {
       tasks.delete(task.id);
+      removed += 1;
     }
   }
 
+  // Tasks from earlier runs only leave through their retention period, not to make room for new ones.
   const remainingTerminal = Array.from(tasks.values())
-    .filter((task) => isTaskTerminal(task.state))
+    .filter((task) => isTaskTerminal(task.state) && !task.restored)
     .sort((a, b) => taskUpdatedAtMs(a) - taskUpdatedAtMs(b));
 
   const overflow = remainingTerminal.length - MAX_COMPLETED_TASKS;
-  if (overflow <= 0) {
-    return;
-  }
   for (let i = 0; i < overflow; i += 1) {
     tasks.delete(remainingTerminal[i].id);
+    removed += 1;
+  }
+  if (removed > 0) {
+    scheduleStateFlush();
   }
 }
 
@@ -659,6 +2380,7 @@ async function runSubtask(task: TaskRecord, subtask: TaskSubtaskRecord): Promise
       subtask.updatedAt = now;
       subtask.completedAt = now;
       subtask.resolveTerminal();
+      emitSubtaskEvent(task, subtask);
       refreshTaskState(task);
       return;
     }
@@ -683,22 +2405,30 @@ async function runSubtask(task: TaskRecord, subtask: TaskSubtaskRecord): Promise
   subtask.startedAt = startTime;
   subtask.updatedAt = startTime;
   task.updatedAt = startTime;
+  emitSubtaskEvent(task, subtask);
+  scheduleStateFlush();
 
   try {
-    const result = await askAgent(subtask.agent, prompt, undefined, {
-      taskId: task.id,
-      subtaskId: subtask.id,
+    const result = await askAgent(subtask.agent, prompt, {
+      model: subtask.model ?? undefined,
+      queue: true,
+      activeTask: {
+        taskId: task.id,
+        subtaskId: subtask.id,
+      },
     });
     if (subtask.state !== "running") {
       return;
     }
     const doneAt = nowIso();
-    subtask.state = "done";
+    // A timed-out permission means the agent skipped work it asked to do, so the subtask is not clean.
+    subtask.state = result.permissionTimeouts.length > 0 ? "error" : "done";
     subtask.result = result.response;
-    subtask.error = null;
+    subtask.error = result.permissionTimeouts.length > 0 ? describePermissionTimeouts(result.permissionTimeouts) : null;
     subtask.updatedAt = doneAt;
     subtask.completedAt = doneAt;
     subtask.resolveTerminal();
+    emitSubtaskEvent(task, subtask);
     refreshTaskState(task);
     if (isTaskTerminal(task.state)) {
       cleanupCompletedTasks();
@@ -713,6 +2443,7 @@ async function runSubtask(task: TaskRecord, subtask: TaskSubtaskRecord): Promise
     subtask.updatedAt = errorAt;
     subtask.completedAt = errorAt;
     subtask.resolveTerminal();
+    emitSubtaskEvent(task, subtask);
     refreshTaskState(task);
     if (isTaskTerminal(task.state)) {
       cleanupCompletedTasks();
@@ -720,6 +2451,11 @@ async function runSubtask(task: TaskRecord, subtask: TaskSubtaskRecord): Promise
   }
 }
 
+function describePermissionTimeouts(timeouts: PermissionTimeoutRecord[]): string {
+  const items = timeouts.map((item) => `${item.title ?? item.toolCallId} (${item.outcome})`);
+  return `permission request timed out: ${items.join(", ")}`;
+}
+
 async function runTask(taskId: string): Promise<void> {
   const task = tasks.get(taskId);
   if (!task) {
@@ -800,6 +2536,7 @@ function createTask(body: any): TaskRecord {
     if (!prompt) {
       throw new HttpError(400, `subtask prompt is required at index ${index}`);
     }
+    const model = typeof raw.model === "string" && raw.model.trim() ? raw.model.trim() : null;
     const requestedId = typeof raw.id === "string" ? raw.id.trim() : "";
     const id = requestedId || `subtask-${index + 1}`;
     if (usedIds.has(id)) {
@@ -823,6 +2560,7 @@ function createTask(body: any): TaskRecord {
       id,
       agent,
       prompt,
+      model,
       dependsOn,
       state: "pending",
       result: null,
@@ -847,8 +2585,10 @@ function createTask(body: any): TaskRecord {
     updatedAt: createdAt,
     cancelRequested: false,
     cancelController: new AbortController(),
+    restored: false,
   };
   tasks.set(task.id, task);
+  scheduleStateFlush();
   void runTask(task.id);
   return task;
 }
@@ -856,8 +2596,6 @@ function createTask(body: any): TaskRecord {
 async function cancelTask(task: TaskRecord): Promise<{ cancelledSubtasks: number }> {
   task.cancelRequested = true;
   task.cancelController.abort();
-  task.state = "cancelled";
-  task.updatedAt = nowIso();
 
   let cancelledSubtasks = 0;
   const cancelAgents = new Set<string>();
@@ -869,38 +2607,128 @@ async function cancelTask(task: TaskRecord): Promise<{ cancelledSubtasks: number
       subtask.updatedAt = cancelledAt;
       subtask.completedAt = cancelledAt;
       subtask.resolveTerminal();
+      emitSubtaskEvent(task, subtask);
       cancelledSubtasks += 1;
       if (wasRunning) {
         cancelAgents.add(subtask.agent);
       }
     }
   }
+  setTaskState(task, "cancelled");
+
+  for (const record of agents.values()) {
+    cancelQueuedPrompts(record, `Task cancelled: ${task.id}`, (item) => item.activeTask?.taskId === task.id);
+  }
 
   for (const agentName of cancelAgents) {
     const record = agents.get(agentName);
     if (!record) {
       continue;
     }
-    if (!record.activeTask || record.activeTask.taskId !== task.id) {
-      continue;
-    }
-    try {
-      await record.connection.cancel({ sessionId: record.sessionId } as any);
-      const cancelledPermissions = cancelAllPendingPermissions(record);
-      if (cancelledPermissions > 0 || record.state === "working") {
-        record.state = "idle";
-        record.updatedAt = nowIso();
+    const owned = Array.from(record.sessions.values()).filter((session) => session.activeTask?.taskId === task.id);
+    for (const session of owned) {
+      try {
+        await record.connection.cancel({ sessionId: session.sessionId } as any);
+        const cancelledPermissions = cancelAllPendingPermissions(record, session.sessionId);
+        if (cancelledPermissions > 0 || session.state === "working") {
+          session.state = "idle";
+          session.updatedAt = nowIso();
+          refreshAgentState(record);
+          record.updatedAt = nowIso();
+        }
+      } catch {
+        // best effort cancel
       }
-    } catch {
-      // best effort cancel
     }
   }
 
   cleanupCompletedTasks();
+  scheduleStateFlush();
 
   return { cancelledSubtasks };
 }
 
+function restoreTask(saved: ReturnType<typeof toTaskStatus>): TaskRecord {
+  const restoredAt = nowIso();
+  const subtasks: TaskSubtaskRecord[] = saved.subtasks.map((item) => {
+    const inFlight = !isSubtaskTerminal(item.state);
+    return {
+      id: item.id,
+      agent: item.agent,
+      prompt: item.prompt,
+      model: item.model ?? null,
+      dependsOn: Array.isArray(item.dependsOn) ? item.dependsOn : [],
+      state: inFlight ? "interrupted" : item.state,
+      result: item.result ?? null,
+      error: inFlight ? "daemon restarted before subtask finished" : item.error ?? null,
+      createdAt: item.createdAt,
+      updatedAt: inFlight ? restoredAt : item.updatedAt,
+      startedAt: item.startedAt ?? null,
+      completedAt: inFlight ? restoredAt : item.completedAt ?? null,
+      terminalPromise: Promise.resolve(),
+      resolveTerminal: () => {},
+    };
+  });
+
+  const task: TaskRecord = {
+    id: saved.id,
+    name: saved.name,
+    state: saved.state,
+    subtasks,
+    createdAt: saved.createdAt,
+    updatedAt: saved.updatedAt,
+    cancelRequested: saved.state === "cancelled",
+    cancelController: new AbortController(),
+    restored: true,
+  };
+  if (!isTaskTerminal(saved.state)) {
+    refreshTaskState(task);
+  }
+  return task;
+}
+
+function restorePersistedState(): PersistedAgent[] {
+  const saved = loadPersistedState();
+  if (!saved) {
+    return [];
+  }
+  // Keep event ids increasing across restarts so `Last-Event-ID` from a previous run stays meaningful.
+  nextDaemonEventId = Math.max(nextDaemonEventId, saved.lastEventId + 1);
+  for (const raw of saved.tasks) {
+    if (!raw || typeof raw.id !== "string" || !Array.isArray(raw.subtasks)) {
+      continue;
+    }
+    tasks.set(raw.id, restoreTask(raw));
+  }
+  return saved.agents.filter(
+    (item) => item?.spec && typeof item.spec.name === "string" && item.state !== "stopped" && item.state !== "error",
+  );
+}
+
+async function respawnPersistedAgents(saved: PersistedAgent[]): Promise<void> {
+  for (const item of saved) {
+    try {
+      const record = await startAgent({ ...item.spec, sessionId: item.sessionId }, item.sessions ?? []);
+      const session = defaultSession(record);
+      if (session && record.sessionId === item.sessionId) {
+        // The reloaded session's replay is ignored, so carry its last answer over from the journal.
+        session.lastText = item.lastText ?? "";
+        session.stopReason = item.stopReason ?? null;
+      }
+      process.stdout.write(JSON.stringify({ ok: true, event: "agent_respawned", name: item.spec.name }) + "\n");
+    } catch (error) {
+      process.stderr.write(
+        JSON.stringify({
+          ok: false,
+          event: "agent_respawn_error",
+          name: item.spec.name,
+          error: error instanceof Error ? error.message : String(error),
+        }) + "\n",
+      );
+    }
+  }
+}
+
 async function spawnAgentConnection(input: {
   name: string;
   cwd: string;
@@ -908,12 +2736,14 @@ async function spawnAgentConnection(input: {
   args: string[];
   env: NodeJS.ProcessEnv;
   getClient: () => acp.Client;
+  resumeSessionId?: string;
   onStderrLine?: (line: string) => void;
 }): Promise<{
   child: ChildProcessWithoutNullStreams;
   connection: acp.ClientSideConnection;
-  init: unknown;
+  init: any;
   session: any;
+  resumed: boolean;
 }> {
   let child: ChildProcessWithoutNullStreams;
   try {
@@ -953,10 +2783,29 @@ async function spawnAgentConnection(input: {
     const init = await Promise.race([
       connection.initialize({
         protocolVersion: acp.PROTOCOL_VERSION,
-        clientCapabilities: {},
+        clientCapabilities: {
+          fs: {
+            readTextFile: true,
+            writeTextFile: true,
+          },
+          terminal: true,
+        },
       } as any),
       spawnError,
     ]);
+    const capabilities: acp.AgentCapabilities = (init as any).agentCapabilities ?? {};
+    if (input.resumeSessionId && (capabilities.loadSession || capabilities.sessionCapabilities?.resume)) {
+      const request = {
+        sessionId: input.resumeSessionId,
+        cwd: input.cwd,
+        mcpServers: [],
+      };
+      const loaded = await Promise.race([
+        capabilities.loadSession ? connection.loadSession(request) : connection.unstable_resumeSession(request),
+        spawnError,
+      ]);
+      return { child, connection, init, session: { ...loaded, sessionId: input.resumeSessionId }, resumed: true };
+    }
     const session = await Promise.race([
       connection.newSession({
         cwd: input.cwd,
@@ -964,72 +2813,115 @@ async function spawnAgentConnection(input: {
       } as any),
       spawnError,
     ]);
-    return { child, connection, init, session };
+    return { child, connection, init, session, resumed: false };
   } catch (error) {
     child.kill("SIGTERM");
     throw error;
   }
 }
 
-function subscribeChunks(name: string, callback: (chunk: string) => void): () => void {
-  const set = chunkSubscribers.get(name) || new Set<(chunk: string) => void>();
+function streamSubscriberKey(name: string, sessionId: string): string {
+  return `${name}\u0000${sessionId}`;
+}
+
+function subscribeSessionStream(name: string, sessionId: string, callback: SessionStreamListener): () => void {
+  const key = streamSubscriberKey(name, sessionId);
+  const set = streamSubscribers.get(key) || new Set<SessionStreamListener>();
   set.add(callback);
-  chunkSubscribers.set(name, set);
+  streamSubscribers.set(key, set);
   return () => {
-    const current = chunkSubscribers.get(name);
+    const current = streamSubscribers.get(key);
     if (!current) {
       return;
     }
     current.delete(callback);
     if (current.size === 0) {
-      chunkSubscribers.delete(name);
+      streamSubscribers.delete(key);
     }
   };
 }
 
-function publishChunk(name: string, chunk: string): void {
-  const subscribers = chunkSubscribers.get(name);
+function publishSessionEvent(name: string, sessionId: string, event: string, data: unknown): void {
+  const subscribers = streamSubscribers.get(streamSubscriberKey(name, sessionId));
   if (!subscribers || subscribers.size === 0) {
     return;
   }
   for (const callback of subscribers) {
-    callback(chunk);
+    callback(event, data);
   }
 }
 
-async function startAgent(input: {
-  type?: string;
-  name: string;
-  cwd?: string;
-  command?: string;
-  args?: string[];
-  env?: Record<string, string>;
-  mode?: string;
-}): Promise<AgentRecord> {
-  const type = input.type?.trim() || "opencode";
-  const name = input.name?.trim();
-  if (!name) {
-    throw new Error("Agent name is required");
+function emitDaemonEvent(type: string, scope: { agent?: string; taskId?: string | null }, data: unknown): void {
+  const event: DaemonEvent = {
+    id: nextDaemonEventId++,
+    type,
+    agent: scope.agent ?? null,
+    taskId: scope.taskId ?? null,
+    data,
+    at: nowIso(),
+  };
+  recentDaemonEvents.push(event);
+  if (recentDaemonEvents.length > MAX_RECENT_EVENTS) {
+    recentDaemonEvents.splice(0, recentDaemonEvents.length - MAX_RECENT_EVENTS);
   }
-  if (agents.has(name)) {
-    throw new Error(`Agent already exists: ${name}`);
+  for (const listener of daemonEventListeners) {
+    listener(event);
   }
+  scheduleStateFlush();
+}
 
-  const cwd = input.cwd || process.cwd();
+function setAgentState(record: AgentRecord, state: AgentState): void {
+  if (record.state === state) {
+    return;
+  }
+  const previous = record.state;
+  record.state = state;
+  emitDaemonEvent("agent_state", { agent: record.name }, { name: record.name, from: previous, to: state, lastError: record.lastError });
+}
+
+function emitSubtaskEvent(task: TaskRecord, subtask: TaskSubtaskRecord): void {
+  emitDaemonEvent(
+    "subtask_state",
+    { agent: subtask.agent, taskId: task.id },
+    { taskId: task.id, subtaskId: subtask.id, agent: subtask.agent, state: subtask.state, error: subtask.error },
+  );
+}
+
+function sessionTaskId(record: AgentRecord, sessionId: string): string | null {
+  return record.sessions.get(sessionId)?.activeTask?.taskId ?? null;
+}
+
+async function launchAgentProcess(input: {
+  type: string;
+  name: string;
+  cwd: string;
+  spec: StartAgentInput;
+  client: acp.Client;
+  stderrBuffer: string[];
+  getRecord: () => AgentRecord | undefined;
+  resumeSessionId?: string;
+}): Promise<{
+  child: ChildProcessWithoutNullStreams;
+  connection: acp.ClientSideConnection;
+  init: any;
+  session: any;
+  resumed: boolean;
+}> {
+  const { type, name, cwd, spec } = input;
   const configuredAgent = bridgeConfig.agents?.[type];
   let defaultArgs: string[] = [];
   if (type === "opencode") {
     defaultArgs = ["acp"];
   }
   const configuredArgs = configuredAgent?.args && configuredAgent.args.length > 0 ? configuredAgent.args : undefined;
-  const requestedArgs = input.args && input.args.length > 0 ? input.args : undefined;
+  const requestedArgs = spec.args && spec.args.length > 0 ? spec.args : undefined;
   const opencodeBin = `${homedir()}/.opencode/bin`;
   const currentPath = process.env.PATH || "";
   const childPath = currentPath ? `${opencodeBin}${delimiter}${currentPath}` : opencodeBin;
   const finalEnv: Record<string, string | undefined> = {
     ...process.env,
     ...(configuredAgent?.env || {}),
-    ...(input.env || {}),
+    ...(spec.env || {}),
     PATH: childPath,
   };
 
@@ -1046,26 +2938,23 @@ async function startAgent(input: {
     finalEnv.no_proxy = "*";
   }
 
-  let record: AgentRecord | undefined;
-  const stderrBuffer: string[] = [];
-  const client = new BridgeClient(() => record);
-  const defaultCommand = input.command || configuredAgent?.command || type;
+  const defaultCommand = spec.command || configuredAgent?.command || type;
   const defaultArgsList = requestedArgs || configuredArgs || defaultArgs;
   const useCodexFallback =
     type === "codex" &&
-    !input.command &&
+    !spec.command &&
     !configuredAgent?.command &&
     !requestedArgs &&
     !configuredArgs;
   const useClaudeDefault =
     type === "claude" &&
-    !input.command &&
+    !spec.command &&
     !configuredAgent?.command &&
     !requestedArgs &&
     !configuredArgs;
   const useGeminiDefault =
     type === "gemini" &&
-    !input.command &&
+    !spec.command &&
     !configuredAgent?.command &&
     !requestedArgs &&
     !configuredArgs;
@@ -1082,59 +2971,265 @@ async function startAgent(input: {
 
   await preflightCheck(type, {
     ...finalEnv,
-    ACP_BRIDGE_AGENT_COMMAND: input.command || configuredAgent?.command,
+    ACP_BRIDGE_AGENT_COMMAND: spec.command || configuredAgent?.command,
   });
 
-  let child: ChildProcessWithoutNullStreams | undefined;
-  let connection: acp.ClientSideConnection | undefined;
-  let init: unknown;
-  let session: any;
+  let launched: Awaited<ReturnType<typeof spawnAgentConnection>> | undefined;
   let lastError: unknown;
 
   for (const candidate of candidates) {
     try {
-      const result = await spawnAgentConnection({
+      launched = await spawnAgentConnection({
         name,
         cwd,
         command: expandHomePath(candidate.command),
         args: candidate.args,
         env: finalEnv,
-        getClient: () => client,
+        getClient: () => input.client,
+        resumeSessionId: input.resumeSessionId,
         onStderrLine: (line: string) => {
-          pushStderrLine(stderrBuffer, line);
+          pushStderrLine(input.stderrBuffer, line);
+          const record = input.getRecord();
           if (record) {
             record.updatedAt = nowIso();
             record.lastError = line;
           }
         },
       });
-      child = result.child;
-      connection = result.connection;
-      init = result.init;
-      session = result.session;
       break;
     } catch (error) {
       lastError = error;
     }
   }
-
-  if (!child || !connection || !session) {
-    throw lastError instanceof Error ? lastError : new HttpError(500, "failed to start agent");
+
+  if (!launched) {
+    throw lastError instanceof Error ? lastError : new HttpError(500, "failed to start agent");
+  }
+
+  // Set session mode if requested (e.g. "full-access" for write permissions)
+  const requestedMode = spec.mode || configuredAgent?.mode;
+  const modes: acp.SessionModeState | undefined = launched.session.modes ?? undefined;
+  if (requestedMode && modes?.availableModes?.length && !modes.availableModes.some((mode) => mode.id === requestedMode)) {
+    const available = modes.availableModes.map((mode) => mode.id).join(", ");
+    console.error(`[${name}] mode "${requestedMode}" is not offered by the agent (available: ${available})`);
+  } else if (requestedMode) {
+    try {
+      await launched.connection.setSessionMode({
+        sessionId: launched.session.sessionId,
+        modeId: requestedMode,
+      } as any);
+      if (modes) {
+        modes.currentModeId = requestedMode;
+      }
+    } catch (modeError: any) {
+      // Non-fatal: agent may not support setSessionMode
+      console.error(`[${name}] setSessionMode("${requestedMode}") failed: ${modeError?.message || modeError}`);
+    }
+  }
+
+  const requestedModel = spec.model || configuredAgent?.model;
+  const models: acp.SessionModelState | undefined = launched.session.models ?? undefined;
+  if (requestedModel && models?.currentModelId !== requestedModel) {
+    if (models?.availableModels?.length && !models.availableModels.some((model) => model.modelId === requestedModel)) {
+      await launched.connection.cancel({ sessionId: launched.session.sessionId }).catch(() => undefined);
+      launched.child.kill("SIGTERM");
+      const available = models.availableModels.map((model) => model.modelId).join(", ");
+      throw new HttpError(400, `unknown model '${requestedModel}' for agent ${name}; available: ${available}`);
+    }
+    try {
+      await launched.connection.unstable_setSessionModel({
+        sessionId: launched.session.sessionId,
+        modelId: requestedModel,
+      });
+      if (models) {
+        models.currentModelId = requestedModel;
+      }
+    } catch (modelError: any) {
+      // Non-fatal: agent may not support model selection
+      console.error(`[${name}] setSessionModel("${requestedModel}") failed: ${modelError?.message || modelError}`);
+    }
+  }
+
+  // Declarative per-type config options from config.json, applied in order.
+  for (const [configId, value] of Object.entries(configuredAgent?.configOptions || {})) {
+    const advertised: acp.SessionConfigOption[] = launched.session.configOptions ?? [];
+    const option = advertised.find((item) => item.id === configId);
+    if (!option) {
+      console.error(`[${name}] config option "${configId}" is not offered by the agent`);
+      continue;
+    }
+    if (option.currentValue === value) {
+      continue;
+    }
+    try {
+      const response = await launched.connection.setSessionConfigOption({
+        sessionId: launched.session.sessionId,
+        configId,
+        value: String(value),
+      });
+      if (Array.isArray(response?.configOptions)) {
+        launched.session.configOptions = response.configOptions;
+      }
+    } catch (configError: any) {
+      // Non-fatal: keep the agent's own default for this option
+      console.error(`[${name}] setSessionConfigOption("${configId}", "${value}") failed: ${configError?.message || configError}`);
+    }
+  }
+
+  return launched;
+}
+
+function attachExitHandler(child: ChildProcessWithoutNullStreams, detached?: AgentRecord): void {
+  child.on("exit", (code, signal) => {
+    // Processes replaced by a restart no longer match any record; forks may share one process.
+    const targets = Array.from(agents.values()).filter((item) => item.child === child && item !== detached);
+    for (const target of targets) {
+      cancelAllPendingPermissions(target);
+      releaseAllTerminals(target);
+      target.updatedAt = nowIso();
+      target.lastError = target.lastError ?? `exit code=${code} signal=${signal}`;
+      target.lastExit = {
+        code,
+        signal,
+        reason: signal ? `killed by ${signal}` : `exited with code ${code}`,
+        at: nowIso(),
+      };
+      setAgentState(target, target.state === "error" ? "error" : "stopped");
+      if (Date.now() - target.spawnedAt >= RESTART_STABLE_MS) {
+        // It stayed up long enough to count as recovered; a new crash starts the backoff over.
+        target.restartCount = 0;
+      }
+      scheduleAutoRestart(target, code !== 0 || signal !== null);
+      if (!target.restartTimer) {
+        // Asks waiting in the queue are kept for the respawned process when a restart is scheduled.
+        cancelQueuedPrompts(target, `Agent exited: ${target.name}`);
+      }
+    }
+    if (targets.length > 0) {
+      scheduleStateFlush();
+    }
+  });
+}
+
+function restartPolicy(record: AgentRecord): RestartPolicy {
+  return record.spec.restartPolicy ?? bridgeConfig.agents?.[record.type]?.restartPolicy ?? "never";
+}
+
+function maxRestarts(record: AgentRecord): number {
+  return record.spec.maxRestarts ?? bridgeConfig.agents?.[record.type]?.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+}
+
+function validateRestartPolicy(input: StartAgentInput): void {
+  if (input.restartPolicy !== undefined && !["never", "on-failure", "always"].includes(input.restartPolicy)) {
+    throw new HttpError(400, "restartPolicy must be never, on-failure or always");
+  }
+  if (input.maxRestarts !== undefined && (!Number.isInteger(input.maxRestarts) || input.maxRestarts < 0)) {
+    throw new HttpError(400, "maxRestarts must be a non-negative integer");
+  }
+}
+
+/**
+ * Respawns an exited agent according to its restart policy, waiting RESTART_BACKOFF_MS doubled per
+ * previous restart (capped at a minute). Failed attempts count towards `maxRestarts` and are retried;
+ * the count starts over once a process stays up for RESTART_STABLE_MS.
+ */
+function scheduleAutoRestart(record: AgentRecord, failed: boolean): void {
+  const policy = restartPolicy(record);
+  if (record.restartTimer || policy === "never" || (policy === "on-failure" && !failed)) {
+    return;
+  }
+  const limit = maxRestarts(record);
+  if (record.restartCount >= limit) {
+    process.stderr.write(
+      JSON.stringify({ ok: false, event: "agent_restart_exhausted", agent: record.name, restartCount: record.restartCount }) + "\n",
+    );
+    record.lastError = `gave up after ${record.restartCount} restarts (${record.lastExit?.reason ?? "unknown exit"})`;
+    return;
+  }
+  const delayMs = Math.min(RESTART_BACKOFF_MS * 2 ** record.restartCount, MAX_RESTART_BACKOFF_MS);
+  record.nextRestartAt = new Date(Date.now() + delayMs).toISOString();
+  record.restartTimer = setTimeout(() => {
+    record.restartTimer = null;
+    record.nextRestartAt = null;
+    // The agent may have been stopped or restarted by hand while the timer was pending.
+    if (agents.get(record.name) !== record || (record.state !== "stopped" && record.state !== "error")) {
+      return;
+    }
+    record.restartCount += 1;
+    restartAgent(record.name)
+      .then(({ resumed }) => {
+        process.stdout.write(
+          JSON.stringify({ ok: true, event: "agent_restarted", agent: record.name, restartCount: record.restartCount, resumed }) +
+            "\n",
+        );
+      })
+      .catch((error) => {
+        process.stderr.write(
+          JSON.stringify({
+            ok: false,
+            event: "agent_restart_error",
+            agent: record.name,
+            restartCount: record.restartCount,
+            error: error instanceof Error ? error.message : String(error),
+          }) + "\n",
+        );
+        scheduleAutoRestart(record, true);
+      });
+  }, delayMs);
+}
+
+function readProtocolVersion(init: any): string | number | null {
+  return typeof init?.protocolVersion === "number" || typeof init?.protocolVersion === "string"
+    ? init.protocolVersion
+    : null;
+}
+
+async function startAgent(
+  input: StartAgentInput,
+  extraSessions: { sessionId: string; name: string }[] = [],
+): Promise<AgentRecord> {
+  const type = input.type?.trim() || "opencode";
+  const name = input.name?.trim();
+  if (!name) {
+    throw new Error("Agent name is required");
+  }
+  if (agents.has(name)) {
+    throw new Error(`Agent already exists: ${name}`);
   }
 
-  // Set session mode if requested (e.g. "full-access" for write permissions)
-  const requestedMode = input.mode || configuredAgent?.mode;
-  if (requestedMode && connection) {
-    try {
-      await connection.setSessionMode({
-        sessionId: (session as any).sessionId,
-        modeId: requestedMode,
-      } as any);
-    } catch (modeError: any) {
-      // Non-fatal: agent may not support setSessionMode
-      console.error(`[${name}] setSessionMode("${requestedMode}") failed: ${modeError?.message || modeError}`);
-    }
-  }
+  const cwd = input.cwd || process.cwd();
+  const requestedSessionId = typeof input.sessionId === "string" && input.sessionId.trim() ? input.sessionId.trim() : undefined;
+  validatePermissionTimeout(input);
+  validateRestartPolicy(input);
+  const spec: StartAgentInput = {
+    type,
+    name,
+    cwd,
+    command: input.command,
+    args: input.args,
+    env: input.env,
+    mode: input.mode,
+    model: input.model,
+    permissionPolicies: normalizePermissionPolicies(input.permissionPolicies),
+    permissionTimeoutMs: input.permissionTimeoutMs,
+    permissionTimeoutOutcome: input.permissionTimeoutOutcome,
+    restartPolicy: input.restartPolicy,
+    maxRestarts: input.maxRestarts,
+  };
+
+  let record: AgentRecord | undefined;
+  const stderrBuffer: string[] = [];
+  const client = new BridgeClient(() => record);
+  const { child, connection, init, session, resumed } = await launchAgentProcess({
+    type,
+    name,
+    cwd,
+    spec,
+    client,
+    stderrBuffer,
+    getRecord: () => record,
+    resumeSessionId: requestedSessionId,
+  });
 
   const created = nowIso();
 
@@ -1144,39 +3239,264 @@ async function startAgent(input: {
     cwd,
     child,
     connection,
-    sessionId: (session as any).sessionId,
-    state: "idle",
+    sessionId: session.sessionId,
+    // Stay "starting" while saved sessions are reattached so their replayed updates are ignored.
+    state: extraSessions.length > 0 ? "starting" : "idle",
     lastError: null,
     stderrBuffer,
-    protocolVersion:
-      typeof (init as any).protocolVersion === "number" || typeof (init as any).protocolVersion === "string"
-        ? (init as any).protocolVersion
-        : null,
-    lastText: "",
-    currentText: "",
-    stopReason: null,
+    protocolVersion: readProtocolVersion(init),
+    agentCapabilities: init?.agentCapabilities ?? {},
+    sessions: new Map([[session.sessionId, createSessionRecord(session.sessionId, "default")]]),
     pendingPermissions: [],
-    activeTask: null,
+    promptQueue: [],
+    history: [],
+    historySeq: 0,
+    fileWrites: [],
+    toolCalls: [],
+    plan: null,
+    availableModes: [],
+    currentModeId: null,
+    availableModels: [],
+    currentModelId: null,
+    configOptions: [],
+    availableCommands: client.takeEarlyCommands(),
+    terminals: new Map(),
+    spec,
+    restartCount: 0,
+    spawnedAt: Date.now(),
+    lastExit: null,
+    restartTimer: null,
+    nextRestartAt: null,
     createdAt: created,
     updatedAt: created,
   };
+  applySessionState(record, session);
   agents.set(name, record);
+  emitDaemonEvent("agent_state", { agent: name }, { name, from: null, to: record.state, lastError: null });
+  scheduleStateFlush();
+  attachExitHandler(child);
+
+  if (extraSessions.length > 0) {
+    await reattachSessions(record, extraSessions);
+    if (record.state === "starting") {
+      setAgentState(record, "idle");
+    }
+  }
+  if (init.protocolVersion !== acp.PROTOCOL_VERSION && init.protocolVersion !== 1) {
+    record.lastError = `protocol mismatch: ${init.protocolVersion}`;
+  } else if (requestedSessionId && !resumed) {
+    record.lastError = `agent cannot load sessions; started new session instead of ${requestedSessionId}`;
+  }
+  return record;
+}
 
-  child.on("exit", (code, signal) => {
-    const target = agents.get(name);
-    if (!target) {
-      return;
+async function restartAgent(name: string): Promise<{ record: AgentRecord; resumed: boolean }> {
+  const record = agents.get(name);
+  if (!record) {
+    throw new HttpError(404, `Agent not found: ${name}`);
+  }
+  if (record.state === "starting") {
+    throw new HttpError(409, `Agent is already restarting: ${name}`);
+  }
+
+  const previousSessionId = record.sessionId;
+  const previousDefault = defaultSession(record);
+  const extraSessions = Array.from(record.sessions.values())
+    .filter((item) => item.sessionId !== previousSessionId)
+    .map((item) => ({ sessionId: item.sessionId, name: item.name }));
+  const oldChild = record.child;
+  cancelAllPendingPermissions(record);
+  releaseAllTerminals(record);
+  setAgentState(record, "starting");
+  record.updatedAt = nowIso();
+  // The old process exiting is part of the restart, not a crash; forks sharing it still need to hear about it.
+  oldChild.removeAllListeners("exit");
+  attachExitHandler(oldChild, record);
+  oldChild.kill("SIGTERM");
+
+  try {
+    const { child, connection, init, session, resumed } = await launchAgentProcess({
+      type: record.type,
+      name,
+      cwd: record.cwd,
+      spec: record.spec,
+      client: new BridgeClient(() => agents.get(name)),
+      stderrBuffer: record.stderrBuffer,
+      getRecord: () => agents.get(name),
+      resumeSessionId: previousSessionId,
+    });
+    record.child = child;
+    record.spawnedAt = Date.now();
+    record.connection = connection;
+    record.sessionId = session.sessionId;
+    record.protocolVersion = readProtocolVersion(init);
+    record.agentCapabilities = init?.agentCapabilities ?? {};
+    const restored =
+      resumed && previousDefault
+        ? { ...previousDefault, state: "idle" as const, currentText: "", currentThoughts: "", lastError: null, activeTask: null, fileWrites: [], toolCalls: [], permissionTimeouts: [], updatedAt: nowIso() }
+        : createSessionRecord(session.sessionId, "default");
+    record.sessions = new Map([[session.sessionId, restored]]);
+    applySessionState(record, session);
+    if (resumed) {
+      await reattachSessions(record, extraSessions);
+    }
+    record.lastError = resumed ? null : `agent cannot load sessions; started new session instead of ${previousSessionId}`;
+    setAgentState(record, "idle");
+    record.updatedAt = nowIso();
+    attachExitHandler(child);
+    scheduleStateFlush();
+    dispatchPromptQueue(record);
+    return { record, resumed };
+  } catch (error) {
+    record.lastError = error instanceof Error ? error.message : String(error);
+    setAgentState(record, "error");
+    record.updatedAt = nowIso();
+    cancelQueuedPrompts(record, `Agent restart failed: ${name}`);
+    scheduleStateFlush();
+    throw error;
+  }
+}
+
+async function reattachSessions(record: AgentRecord, saved: { sessionId: string; name: string }[]): Promise<void> {
+  const capabilities = record.agentCapabilities;
+  if (saved.length === 0 || !(capabilities.loadSession || capabilities.sessionCapabilities?.resume)) {
+    return;
+  }
+  for (const item of saved) {
+    const request = { sessionId: item.sessionId, cwd: record.cwd, mcpServers: [] };
+    try {
+      if (capabilities.loadSession) {
+        await record.connection.loadSession(request);
+      } else {
+        await record.connection.unstable_resumeSession(request);
+      }
+      record.sessions.set(item.sessionId, createSessionRecord(item.sessionId, item.name));
+    } catch (error) {
+      record.lastError = `failed to reattach session ${item.sessionId}: ${error instanceof Error ? error.message : String(error)}`;
     }
-    cancelAllPendingPermissions(target);
-    target.updatedAt = nowIso();
-    target.state = target.state === "error" ? "error" : "stopped";
-    target.lastError = target.lastError ?? `exit code=${code} signal=${signal}`;
+  }
+  record.updatedAt = nowIso();
+}
+
+async function forkAgent(
+  name: string,
+  input: { as: string; sessionId?: string; share?: boolean },
+): Promise<{ record: AgentRecord; shared: boolean }> {
+  const source = agents.get(name);
+  if (!source) {
+    throw new HttpError(404, `Agent not found: ${name}`);
+  }
+  const newName = input.as?.trim();
+  if (!newName) {
+    throw new HttpError(400, "missing 'as' field (name of the forked agent)");
+  }
+  if (agents.has(newName)) {
+    throw new HttpError(409, `Agent already exists: ${newName}`);
+  }
+  if (source.state !== "idle" && source.state !== "working") {
+    throw new HttpError(409, `Agent is not running: ${name}`);
+  }
+  if (!source.agentCapabilities.sessionCapabilities?.fork) {
+    throw new HttpError(400, `agent does not support session forking: ${name}`);
+  }
+  const sourceSession = findAgentSession(source, input.sessionId);
+  if (!sourceSession) {
+    throw new HttpError(404, `Session not found: ${input.sessionId}`);
+  }
+
+  const forked = await source.connection.unstable_forkSession({
+    sessionId: sourceSession.sessionId,
+    cwd: source.cwd,
+    mcpServers: [],
   });
+  const spec: StartAgentInput = { ...source.spec, name: newName };
+  const loadable = Boolean(source.agentCapabilities.loadSession || source.agentCapabilities.sessionCapabilities?.resume);
 
-  if ((init as any).protocolVersion !== acp.PROTOCOL_VERSION && (init as any).protocolVersion !== 1) {
-    record.lastError = `protocol mismatch: ${(init as any).protocolVersion}`;
+  // Clone into a separate process when the fork can be loaded there, otherwise share the source process.
+  if (loadable && !input.share) {
+    const record = await startAgent({ ...spec, sessionId: forked.sessionId });
+    return { record, shared: false };
   }
-  return record;
+
+  const created = nowIso();
+  const record: AgentRecord = {
+    name: newName,
+    type: source.type,
+    cwd: source.cwd,
+    child: source.child,
+    connection: source.connection,
+    sessionId: forked.sessionId,
+    state: "idle",
+    lastError: null,
+    stderrBuffer: [],
+    protocolVersion: source.protocolVersion,
+    agentCapabilities: source.agentCapabilities,
+    sessions: new Map([[forked.sessionId, createSessionRecord(forked.sessionId, "default")]]),
+    pendingPermissions: [],
+    promptQueue: [],
+    history: [],
+    historySeq: 0,
+    fileWrites: [],
+    toolCalls: [],
+    plan: null,
+    availableModes: [],
+    currentModeId: null,
+    availableModels: [],
+    currentModelId: null,
+    configOptions: [],
+    availableCommands: [...source.availableCommands],
+    terminals: new Map(),
+    spec,
+    restartCount: 0,
+    spawnedAt: source.spawnedAt,
+    lastExit: null,
+    restartTimer: null,
+    nextRestartAt: null,
+    createdAt: created,
+    updatedAt: created,
+  };
+  applySessionState(record, forked);
+  agents.set(newName, record);
+  emitDaemonEvent("agent_state", { agent: newName }, { name: newName, from: null, to: record.state, lastError: null });
+  scheduleStateFlush();
+  return { record, shared: true };
+}
+
+async function createAgentSession(record: AgentRecord, name?: string): Promise<AgentSession> {
+  if (record.state !== "idle" && record.state !== "working") {
+    throw new HttpError(409, `Agent is not running: ${record.name}`);
+  }
+  if (name && findAgentSession(record, name)) {
+    throw new HttpError(409, `Session already exists: ${name}`);
+  }
+  const response = await record.connection.newSession({
+    cwd: record.cwd,
+    mcpServers: [],
+  });
+  const session = createSessionRecord(response.sessionId, name);
+  record.sessions.set(session.sessionId, session);
+  record.updatedAt = nowIso();
+  scheduleStateFlush();
+  return session;
+}
+
+async function deleteAgentSession(record: AgentRecord, session: AgentSession): Promise<void> {
+  if (session.sessionId === record.sessionId) {
+    throw new HttpError(400, "cannot delete the default session; stop the agent instead");
+  }
+  if (session.state === "working") {
+    try {
+      await record.connection.cancel({ sessionId: session.sessionId });
+    } catch {
+      // best effort cancel
+    }
+  }
+  cancelAllPendingPermissions(record, session.sessionId);
+  record.sessions.delete(session.sessionId);
+  refreshAgentState(record);
+  record.updatedAt = nowIso();
+  dispatchPromptQueue(record);
+  scheduleStateFlush();
 }
 
 async function stopAgent(name: string): Promise<boolean> {
@@ -1185,12 +3505,28 @@ async function stopAgent(name: string): Promise<boolean> {
     return false;
   }
   try {
+    if (record.restartTimer) {
+      clearTimeout(record.restartTimer);
+      record.restartTimer = null;
+    }
     cancelAllPendingPermissions(record);
-    record.state = "stopped";
+    releaseAllTerminals(record);
+    cancelQueuedPrompts(record, `Agent stopped: ${name}`);
+    setAgentState(record, "stopped");
     record.updatedAt = nowIso();
-    record.child.kill("SIGTERM");
+    const shared = Array.from(agents.values()).some((item) => item !== record && item.child === record.child);
+    if (shared) {
+      for (const session of record.sessions.values()) {
+        if (session.state === "working") {
+          await record.connection.cancel({ sessionId: session.sessionId }).catch(() => undefined);
+        }
+      }
+    } else {
+      record.child.kill("SIGTERM");
+    }
   } finally {
     agents.delete(name);
+    scheduleStateFlush();
   }
   return true;
 }
@@ -1205,9 +3541,42 @@ function parseAskTimeoutMs(): number {
 
 type AskResult = {
   name: string;
+  sessionId: string;
   state: AgentState;
   stopReason: string | null;
   response: string;
+  fileWrites: FileWriteRecord[];
+  toolCalls: ToolCallRecord[];
+  permissionTimeouts: PermissionTimeoutRecord[];
+  thoughts?: string;
+};
+
+type AskJobState = "queued" | "running" | "done" | "error";
+
+type AskJob = {
+  id: string;
+  agent: string;
+  sessionId: string | null;
+  prompt: string;
+  state: AskJobState;
+  partialText: string;
+  result: AskResult | null;
+  error: string | null;
+  statusCode: number | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+};
+
+type AskOptions = {
+  onEvent?: SessionStreamListener;
+  onStart?: (sessionId: string) => void;
+  includeThoughts?: boolean;
+  model?: string;
+  content?: acp.ContentBlock[];
+  activeTask?: { taskId: string; subtaskId: string };
+  sessionId?: string;
+  queue?: boolean;
 };
 
 type DoctorResult = {
@@ -1219,77 +3588,257 @@ type DoctorResult = {
   message?: string;
 };
 
-async function askAgent(
-  name: string,
-  prompt: string,
-  onChunk?: (chunk: string) => void,
-  activeTask?: { taskId: string; subtaskId: string },
-): Promise<AskResult> {
+async function askAgent(name: string, prompt: string, options: AskOptions = {}): Promise<AskResult> {
+  const { onEvent, activeTask } = options;
   const record = agents.get(name);
   if (!record) {
     throw new Error(`Agent not found: ${name}`);
   }
-  if (record.state === "working") {
-    throw new Error(`Agent is busy: ${name}`);
+  let session = findAgentSession(record, options.sessionId);
+  if (!session) {
+    throw new HttpError(404, `Session not found: ${options.sessionId}`);
   }
-  record.state = "working";
+  let requeued = false;
+  const needsModel = () =>
+    Boolean(options.model) && !(session.sessionId === record.sessionId && record.currentModelId === options.model);
+  let modelPending = needsModel();
+  for (;;) {
+    while (session.state === "working" || record.state === "starting" || record.restartTimer) {
+      if (!options.queue) {
+        throw new HttpError(409, `Agent is busy: ${name}`);
+      }
+      await waitInPromptQueue(
+        record,
+        { sessionRef: options.sessionId, prompt, activeTask: activeTask ?? null },
+        (id, position) => onEvent?.("queued", { queueId: id, position }),
+        requeued,
+      );
+      // A restart may have replaced the default session while this ask waited.
+      session = findAgentSession(record, options.sessionId);
+      if (!session) {
+        throw new HttpError(404, `Session not found: ${options.sessionId}`);
+      }
+      requeued = true;
+      // Whoever ran in between may have switched the model.
+      modelPending = needsModel();
+    }
+    if (!modelPending) {
+      break;
+    }
+    // Another ask may take the session during the switch; the loop above then waits for it again.
+    await setAgentModel(record, session, options.model);
+    modelPending = false;
+  }
+  session.state = "working";
+  options.onStart?.(session.sessionId);
+  recordPromptHistory(record, session.sessionId, prompt, options.content ?? []);
+  session.currentText = "";
+  session.currentThoughts = "";
+  session.stopReason = null;
+  session.activeTask = activeTask ? { taskId: activeTask.taskId, subtaskId: activeTask.subtaskId } : null;
+  session.fileWrites = [];
+  session.toolCalls = [];
+  session.permissionTimeouts = [];
+  session.updatedAt = nowIso();
+  setAgentState(record, "working");
   record.updatedAt = nowIso();
-  record.currentText = "";
-  record.stopReason = null;
-  record.activeTask = activeTask ? { taskId: activeTask.taskId, subtaskId: activeTask.subtaskId } : null;
   const timeoutMs = parseAskTimeoutMs();
-  const unsubscribe = onChunk ? subscribeChunks(name, onChunk) : null;
+  const unsubscribe = onEvent ? subscribeSessionStream(name, session.sessionId, onEvent) : null;
+  const connection = record.connection;
   let timeoutHandle: NodeJS.Timeout | null = null;
   try {
     const response = await Promise.race([
-      record.connection.prompt({
-        sessionId: record.sessionId,
-        prompt: [{ type: "text", text: prompt }],
-      } as any),
+      connection.prompt({
+        sessionId: session.sessionId,
+        prompt: [...(prompt ? [{ type: "text", text: prompt } as acp.ContentBlock] : []), ...(options.content ?? [])],
+      }),
       new Promise<never>((_, reject) => {
         timeoutHandle = setTimeout(() => {
           reject(new HttpError(408, `ask timeout after ${timeoutMs}ms`));
         }, timeoutMs);
       }),
+      // The SDK leaves requests pending when the agent's stdout closes, so fail the prompt ourselves.
+      connection.closed.then(() => {
+        throw new HttpError(500, `Agent exited during prompt: ${name}`);
+      }),
     ]);
-    record.state = "idle";
-    record.stopReason = (response as any).stopReason ?? null;
-    record.lastText = record.currentText;
+    session.state = "idle";
+    session.stopReason = (response as any).stopReason ?? null;
+    session.lastError = null;
+    pushHistoryEntry(record, { sessionId: session.sessionId, kind: "stop", text: null, stopReason: session.stopReason });
+    session.lastText = session.currentText;
+    session.lastThoughts = session.currentThoughts;
+    session.updatedAt = nowIso();
+    refreshAgentState(record);
     record.updatedAt = nowIso();
-    return {
+    const result: AskResult = {
       name: record.name,
+      sessionId: session.sessionId,
       state: record.state,
-      stopReason: record.stopReason,
-      response: record.lastText,
+      stopReason: session.stopReason,
+      response: session.lastText,
+      fileWrites: [...session.fileWrites],
+      toolCalls: [...session.toolCalls],
+      permissionTimeouts: [...session.permissionTimeouts],
     };
+    if (options.includeThoughts) {
+      result.thoughts = session.lastThoughts;
+    }
+    return result;
   } catch (error) {
+    session.state = "idle";
+    session.updatedAt = nowIso();
+    pushHistoryEntry(record, {
+      sessionId: session.sessionId,
+      kind: "stop",
+      text: error instanceof Error ? error.message : String(error),
+      stopReason: error instanceof HttpError && error.statusCode === 408 ? "timeout" : "error",
+    });
+    if (record.connection !== connection) {
+      // The agent was restarted under this prompt; the new process is not at fault.
+      throw error;
+    }
     if (error instanceof HttpError && error.statusCode === 408) {
-      record.state = "idle";
-      record.stopReason = "timeout";
+      // The prompt is abandoned; do not leave its permission requests waiting for an answer.
+      cancelAllPendingPermissions(record, session.sessionId);
+      session.stopReason = "timeout";
+      refreshAgentState(record);
       record.lastError = error.message;
       record.updatedAt = nowIso();
       throw error;
     }
-    record.state = "error";
-    record.lastError = classifyAskError(error);
+    session.lastError = classifyAskError(error);
+    record.lastError = session.lastError;
+    refreshAgentState(record);
     record.updatedAt = nowIso();
     throw error;
   } finally {
+    scheduleStateFlush();
     if (timeoutHandle) {
       clearTimeout(timeoutHandle);
     }
     if (unsubscribe) {
       unsubscribe();
     }
+    // Once the connection is gone, the exit handler or the restart decides what happens to queued asks.
+    if (record.connection === connection && !connection.signal.aborted) {
+      dispatchPromptQueue(record);
+    }
     if (
       !activeTask ||
-      (record.activeTask &&
-        record.activeTask.taskId === activeTask.taskId &&
-        record.activeTask.subtaskId === activeTask.subtaskId)
+      (session.activeTask &&
+        session.activeTask.taskId === activeTask.taskId &&
+        session.activeTask.subtaskId === activeTask.subtaskId)
     ) {
-      record.activeTask = null;
+      session.activeTask = null;
+    }
+  }
+}
+
+async function parseAskBody(
+  name: string,
+  body: Record<string, any>,
+): Promise<{ prompt: string; options: AskOptions }> {
+  // `prompt` may itself be a content block array; `content` blocks follow the text prompt.
+  const prompt = typeof body.prompt === "string" ? body.prompt : "";
+  const content = await buildPromptContent(name, Array.isArray(body.prompt) ? body.prompt : body.content);
+  if (!prompt && content.length === 0) {
+    throw new HttpError(400, "prompt is required");
+  }
+  return {
+    prompt,
+    options: {
+      sessionId: typeof body.sessionId === "string" ? body.sessionId : undefined,
+      includeThoughts: body.includeThoughts === true,
+      queue: body.queue === true,
+      content,
+    },
+  };
+}
+
+function toAskJobStatus(job: AskJob) {
+  return {
+    id: job.id,
+    agent: job.agent,
+    sessionId: job.sessionId,
+    prompt: job.prompt,
+    state: job.state,
+    partialText: job.partialText,
+    result: job.result,
+    error: job.error,
+    statusCode: job.statusCode,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+}
+
+function cleanupAskJobs(): void {
+  const expiryThreshold = Date.now() - TASK_TTL_MS;
+  const finished = Array.from(askJobs.values())
+    .filter((job) => job.completedAt !== null)
+    .sort((a, b) => Date.parse(a.completedAt as string) - Date.parse(b.completedAt as string));
+  const overflow = finished.length - MAX_COMPLETED_ASKS;
+  finished.forEach((job, index) => {
+    if (index < overflow || Date.parse(job.completedAt as string) <= expiryThreshold) {
+      askJobs.delete(job.id);
     }
+  });
+}
+
+/** Runs an ask in the background; progress and the final result are read back via `GET /asks/:id`. */
+function startAskJob(name: string, prompt: string, options: AskOptions): AskJob {
+  if (!agents.has(name)) {
+    throw new HttpError(404, `Agent not found: ${name}`);
   }
+  cleanupAskJobs();
+  const created = nowIso();
+  const job: AskJob = {
+    id: randomUUID(),
+    agent: name,
+    sessionId: null,
+    prompt,
+    state: "running",
+    partialText: "",
+    result: null,
+    error: null,
+    statusCode: null,
+    createdAt: created,
+    updatedAt: created,
+    completedAt: null,
+  };
+  askJobs.set(job.id, job);
+  void askAgent(name, prompt, {
+    ...options,
+    onStart: (sessionId) => {
+      job.state = "running";
+      job.sessionId = sessionId;
+      job.updatedAt = nowIso();
+    },
+    onEvent: (event, data) => {
+      if (event === "queued") {
+        job.state = "queued";
+      } else if (event === "chunk") {
+        job.partialText += (data as { chunk: string }).chunk;
+      }
+      job.updatedAt = nowIso();
+    },
+  })
+    .then((result) => {
+      job.state = "done";
+      job.result = result;
+      job.partialText = result.response;
+    })
+    .catch((error) => {
+      job.state = "error";
+      job.error = error instanceof Error ? error.message : String(error);
+      job.statusCode = error instanceof HttpError ? error.statusCode : 500;
+    })
+    .finally(() => {
+      job.completedAt = nowIso();
+      job.updatedAt = job.completedAt;
+    });
+  return job;
 }
 
 async function runDoctorForType(type: string, env: Record<string, string | undefined>): Promise<DoctorResult> {
@@ -1392,6 +3941,324 @@ async function buildAgentDiagnose(record: AgentRecord): Promise<unknown> {
   };
 }
 
+/** Minimal RFC 6455 server side: text frames, fragmentation, ping/pong and close. */
+class WebSocketPeer {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+  unsubscribeEvents: (() => void) | null = null;
+
+  constructor(
+    private readonly socket: Duplex,
+    private readonly onText: (text: string) => void,
+  ) {
+    socket.on("data", (chunk: Buffer) => this.receive(chunk));
+    socket.on("close", () => this.dispose());
+    socket.on("error", () => this.dispose());
+  }
+
+  receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    this.readFrames();
+  }
+
+  send(message: unknown): void {
+    this.writeFrame(0x1, Buffer.from(JSON.stringify(message), "utf8"));
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.closed) {
+      return;
+    }
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.writeFrame(0x8, payload);
+    this.socket.end();
+    this.dispose();
+  }
+
+  private dispose(): void {
+    this.closed = true;
+    this.unsubscribeEvents?.();
+    this.unsubscribeEvents = null;
+    webSocketPeers.delete(this);
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): void {
+    if (this.closed || this.socket.destroyed) {
+      return;
+    }
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header.writeUInt16BE(payload.length, 2);
+      header[1] = 126;
+    } else {
+      header = Buffer.alloc(10);
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+      header[1] = 127;
+    }
+    header[0] = 0x80 | opcode;
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  private readFrames(): void {
+    while (!this.closed && this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) {
+          return;
+        }
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) {
+          return;
+        }
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked) {
+        this.close(1002, "client frames must be masked");
+        return;
+      }
+      if (length > MAX_WEBSOCKET_MESSAGE_BYTES) {
+        this.close(1009, "message too big");
+        return;
+      }
+      if (this.buffer.length < offset + 4 + length) {
+        return;
+      }
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let index = 0; index < payload.length; index += 1) {
+        payload[index] ^= mask[index % 4];
+      }
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) {
+        this.close();
+        return;
+      }
+      if (opcode === 0x9) {
+        this.writeFrame(0xa, payload);
+        continue;
+      }
+      if (opcode === 0xa) {
+        continue;
+      }
+      if (opcode === 0x2) {
+        this.close(1003, "binary frames are not supported");
+        return;
+      }
+      if (opcode === 0x1 || opcode === 0x0) {
+        this.fragments.push(payload);
+        const size = this.fragments.reduce((total, item) => total + item.length, 0);
+        if (size > MAX_WEBSOCKET_MESSAGE_BYTES) {
+          this.close(1009, "message too big");
+          return;
+        }
+        if (fin) {
+          const text = Buffer.concat(this.fragments).toString("utf8");
+          this.fragments = [];
+          this.onText(text);
+        }
+      }
+    }
+  }
+}
+
+function toRpcError(error: unknown): { code: number; message: string; data?: unknown } {
+  if (error instanceof HttpError) {
+    return { code: error.statusCode, message: error.message, data: error.details ?? null };
+  }
+  return { code: 500, message: error instanceof Error ? error.message : String(error) };
+}
+
+function requireAgent(params: Record<string, any>): AgentRecord {
+  const record = typeof params.name === "string" ? agents.get(params.name) : undefined;
+  if (!record) {
+    throw new HttpError(404, `Agent not found: ${params.name}`);
+  }
+  return record;
+}
+
+function requireTask(params: Record<string, any>): TaskRecord {
+  const task = typeof params.id === "string" ? tasks.get(params.id) : undefined;
+  if (!task) {
+    throw new HttpError(404, `Task not found: ${params.id}`);
+  }
+  return task;
+}
+
+/** Dispatches one WebSocket request; the methods mirror the HTTP routes. */
+async function handleWebSocketRequest(
+  peer: WebSocketPeer,
+  requestId: unknown,
+  method: string,
+  params: Record<string, any>,
+): Promise<unknown> {
+  switch (method) {
+    case "agents.list":
+      return Array.from(agents.values()).map((item) => toStatus(item));
+    case "agents.get":
+      return toStatus(requireAgent(params));
+    case "agents.start":
+      return toStatus(await startAgent(params as StartAgentInput));
+    case "agents.stop": {
+      requireAgent(params);
+      await stopAgent(params.name);
+      return { ok: true };
+    }
+    case "ask": {
+      requireAgent(params);
+      const { prompt, options } = await parseAskBody(params.name, params);
+      return askAgent(params.name, prompt, {
+        ...options,
+        onEvent: (event, data) => peer.send({ jsonrpc: "2.0", method: "ask.event", params: { requestId, event, data } }),
+      });
+    }
+    case "permissions.approve":
+    case "permissions.deny": {
+      const record = requireAgent(params);
+      const action = method === "permissions.approve" ? "approve" : "deny";
+      if (params.all === true) {
+        const requestIds = resolveAllPendingPermissions(record, action);
+        if (requestIds.length === 0) {
+          throw new HttpError(409, "no_pending_permissions");
+        }
+        return { ok: true, name: record.name, action, requestIds, pendingPermissions: record.pendingPermissions.length };
+      }
+      const requestId = params.requestId === undefined ? undefined : Number(params.requestId);
+      const pending = resolvePendingPermission(
+        record,
+        action,
+        typeof params.optionId === "string" ? params.optionId : undefined,
+        requestId,
+      );
+      if (!pending) {
+        throw requestId === undefined ? new HttpError(409, "no_pending_permissions") : new HttpError(404, `Permission request not found: ${requestId}`);
+      }
+      return { ok: true, name: record.name, action, requestId: pending.requestId, pendingPermissions: record.pendingPermissions.length };
+    }
+    case "cancel": {
+      const record = requireAgent(params);
+      const requested = typeof params.sessionId === "string" ? findAgentSession(record, params.sessionId) : undefined;
+      if (typeof params.sessionId === "string" && !requested) {
+        throw new HttpError(404, `Session not found: ${params.sessionId}`);
+      }
+      return { ok: true, name: record.name, ...(await cancelAgentPrompts(record, requested)) };
+    }
+    case "tasks.create":
+      return toTaskStatus(createTask(params));
+    case "tasks.list":
+      return Array.from(tasks.values()).map((task) => toTaskStatus(task));
+    case "tasks.get":
+      return toTaskStatus(requireTask(params));
+    case "tasks.cancel": {
+      const task = requireTask(params);
+      const cancelled = await cancelTask(task);
+      return { ok: true, id: task.id, state: task.state, cancelledSubtasks: cancelled.cancelledSubtasks };
+    }
+    case "events.subscribe": {
+      const agentFilter = typeof params.agent === "string" ? params.agent : null;
+      const taskFilter = typeof params.task === "string" ? params.task : null;
+      const lastEventId = Number(params.lastEventId ?? 0) || 0;
+      const matches = (event: DaemonEvent) =>
+        event.id > lastEventId && (!agentFilter || event.agent === agentFilter) && (!taskFilter || event.taskId === taskFilter);
+      peer.unsubscribeEvents?.();
+      const deliver = (event: DaemonEvent) => peer.send({ jsonrpc: "2.0", method: "event", params: event });
+      // Live events wait behind the replay so the client sees ids in order.
+      let live: DaemonEvent[] | null = [];
+      const listener: DaemonEventListener = (event) => {
+        if (!matches(event)) {
+          return;
+        }
+        if (live) {
+          live.push(event);
+        } else {
+          deliver(event);
+        }
+      };
+      daemonEventListeners.add(listener);
+      peer.unsubscribeEvents = () => daemonEventListeners.delete(listener);
+      // Replay after the response so clients see the subscription confirmed first.
+      const backlog = recentDaemonEvents.filter(matches);
+      setImmediate(() => {
+        const queued = live ?? [];
+        live = null;
+        backlog.forEach(deliver);
+        queued.forEach(deliver);
+      });
+      return { ok: true, replayed: backlog.length };
+    }
+    case "events.unsubscribe":
+      peer.unsubscribeEvents?.();
+      peer.unsubscribeEvents = null;
+      return { ok: true };
+    default:
+      throw new HttpError(-32601, `Method not found: ${method}`);
+  }
+}
+
+function handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+  const key = req.headers["sec-websocket-key"];
+  if (
+    requestUrl(req).pathname !== "/ws" ||
+    String(req.headers.upgrade).toLowerCase() !== "websocket" ||
+    typeof key !== "string"
+  ) {
+    socket.end("HTTP/1.1 400 Bad Request\r\nconnection: close\r\n\r\n");
+    return;
+  }
+  if (!isAllowedOrigin(req.headers.origin)) {
+    socket.end("HTTP/1.1 403 Forbidden\r\nconnection: close\r\n\r\n");
+    return;
+  }
+  const accept = createHash("sha1").update(`${key}${WEBSOCKET_GUID}`).digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n"),
+  );
+
+  const peer = new WebSocketPeer(socket, (text) => {
+    let message: any;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      peer.send({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+      return;
+    }
+    const id = message?.id ?? null;
+    if (!message || typeof message.method !== "string") {
+      peer.send({ jsonrpc: "2.0", id, error: { code: -32600, message: "Invalid request" } });
+      return;
+    }
+    const params = message.params && typeof message.params === "object" ? message.params : {};
+    handleWebSocketRequest(peer, id, message.method, params)
+      .then((result) => peer.send({ jsonrpc: "2.0", id, result }))
+      .catch((error) => peer.send({ jsonrpc: "2.0", id, error: toRpcError(error) }));
+  });
+  webSocketPeers.add(peer);
+  // Frames the client sent right behind the handshake arrive in `head`, not as socket data.
+  if (head.length > 0) {
+    peer.receive(head);
+  }
+}
+
 async function handler(req: IncomingMessage, res: ServerResponse): Promise<void> {
   try {
     const method = (req.method || "GET").toUpperCase();
@@ -1458,6 +4325,21 @@ async function handler(req: IncomingMessage, res: ServerResponse): Promise<void>
         return;
       }
       const body = await readJson(req);
+      if (body.all === true) {
+        const requestIds = resolveAllPendingPermissions(record, parts[2]);
+        if (requestIds.length === 0) {
+          writeJson(res, 409, { error: "no_pending_permissions" });
+          return;
+        }
+        writeJson(res, 200, {
+          ok: true,
+          name: record.name,
+          action: parts[2],
+          requestIds,
+          pendingPermissions: record.pendingPermissions.length,
+        });
+        return;
+      }
       const optionId = typeof body.optionId === "string" ? body.optionId : undefined;
       const pending = resolvePendingPermission(record, parts[2], optionId);
       if (!pending) {
@@ -1474,6 +4356,44 @@ async function handler(req: IncomingMessage, res: ServerResponse): Promise<void>
       return;
     }
 
+    if (parts.length === 4 && parts[0] === "agents" && parts[2] === "permissions" && method === "POST") {
+      const record = agents.get(parts[1]);
+      const requestId = Number(parts[3]);
+      if (!record || !Number.isInteger(requestId)) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      const body = await readJson(req);
+      // Look the request up only after the body arrived; it may have been answered or expired meanwhile.
+      const pending = record.pendingPermissions.find((item) => item.requestId === requestId);
+      if (!pending) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      const optionId = typeof body.optionId === "string" ? body.optionId : undefined;
+      if (optionId && !pending.params.options.some((option) => option.optionId === optionId)) {
+        throw new HttpError(400, `Unknown optionId: ${optionId}`, {
+          options: pending.params.options.map((option) => option.optionId),
+        });
+      }
+      // An explicit option is the decision; otherwise `decision` picks the first allow/reject option.
+      const decision = body.decision ?? (optionId ? "approve" : undefined);
+      if (decision !== "approve" && decision !== "deny" && decision !== "cancel") {
+        throw new HttpError(400, "decision must be approve, deny or cancel");
+      }
+      if (!resolvePendingPermission(record, decision, optionId, requestId)) {
+        throw new HttpError(409, `Permission request ${requestId} was already answered`);
+      }
+      writeJson(res, 200, {
+        ok: true,
+        name: record.name,
+        action: decision,
+        requestId,
+        pendingPermissions: record.pendingPermissions.length,
+      });
+      return;
+    }
+
     if (parts.length === 3 && parts[0] === "agents" && method === "POST" && parts[2] === "mode") {
       const record = agents.get(parts[1]);
       if (!record) {
@@ -1483,14 +4403,23 @@ async function handler(req: IncomingMessage, res: ServerResponse): Promise<void>
       const body = await readJson(req);
       const mode = typeof body.mode === "string" ? body.mode : undefined;
       if (!mode) {
-        writeJson(res, 400, { error: "missing 'mode' field (e.g. 'full-access', 'auto', 'read-only')" });
+        const available = record.availableModes.map((item) => item.id);
+        writeJson(res, 400, {
+          error: available.length > 0
+            ? `missing 'mode' field (available: ${available.join(", ")})`
+            : `missing 'mode' field (agent ${record.name} reports no modes)`,
+          availableModes: record.availableModes.map((item) => ({ id: item.id, name: item.name })),
+        });
         return;
       }
+      validateModeId(record, mode);
       try {
         await record.connection.setSessionMode({
           sessionId: record.sessionId,
           modeId: mode,
         } as any);
+        record.currentModeId = mode;
+        record.updatedAt = nowIso();
         writeJson(res, 200, { ok: true, name: record.name, mode });
       } catch (err: any) {
         writeJson(res, 500, { error: `setSessionMode failed: ${err?.message || err}` });
@@ -1498,36 +4427,289 @@ async function handler(req: IncomingMessage, res: ServerResponse): Promise<void>
       return;
     }
 
-    if (parts.length === 3 && parts[0] === "agents" && method === "POST" && parts[2] === "cancel") {
+    if (parts.length === 3 && parts[0] === "agents" && method === "POST" && parts[2] === "restart") {
+      if (!agents.has(parts[1])) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      const pendingRestart = agents.get(parts[1]);
+      if (pendingRestart.restartTimer) {
+        clearTimeout(pendingRestart.restartTimer);
+        pendingRestart.restartTimer = null;
+        pendingRestart.nextRestartAt = null;
+      }
+      const { record, resumed } = await restartAgent(parts[1]);
+      // A manual restart starts the automatic restart budget over.
+      record.restartCount = 0;
+      writeJson(res, 200, { ...toStatus(record), resumed });
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "agents" && method === "POST" && parts[2] === "fork") {
+      if (!agents.has(parts[1])) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      const body = await readJson(req);
+      const { record, shared } = await forkAgent(parts[1], {
+        as: typeof body.as === "string" ? body.as : "",
+        sessionId: typeof body.sessionId === "string" ? body.sessionId : undefined,
+        share: body.share === true,
+      });
+      writeJson(res, 201, { ...toStatus(record), forkedFrom: parts[1], shared });
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "agents" && method === "GET" && parts[2] === "commands") {
       const record = agents.get(parts[1]);
       if (!record) {
         writeJson(res, 404, { error: "not_found" });
         return;
       }
-      await record.connection.cancel({ sessionId: record.sessionId } as any);
-      const cancelledPermissions = cancelAllPendingPermissions(record);
-      record.updatedAt = nowIso();
-      if (record.state === "working") {
-        record.state = "idle";
+      writeJson(res, 200, {
+        name: record.name,
+        commands: record.availableCommands.map((command) => ({
+          name: command.name,
+          description: command.description,
+          inputHint: command.input && "hint" in command.input ? command.input.hint : null,
+        })),
+      });
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "agents" && method === "GET" && parts[2] === "config") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      writeJson(res, 200, {
+        name: record.name,
+        sessionId: record.sessionId,
+        configOptions: record.configOptions.map(toConfigOptionStatus),
+      });
+      return;
+    }
+
+    if (parts.length === 4 && parts[0] === "agents" && method === "PUT" && parts[2] === "config") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
       }
+      const body = await readJson(req);
+      const value = typeof body.value === "string" ? body.value.trim() : "";
+      if (!value) {
+        writeJson(res, 400, { error: "missing 'value' field" });
+        return;
+      }
+      const session = findAgentSession(record, typeof body.sessionId === "string" ? body.sessionId : undefined);
+      if (!session) {
+        writeJson(res, 404, { error: "session_not_found" });
+        return;
+      }
+      const configOptions = await setAgentConfigOption(record, session, parts[3], value);
       writeJson(res, 200, {
         ok: true,
         name: record.name,
-        cancelledPermissions,
+        sessionId: session.sessionId,
+        configOptions: configOptions.map(toConfigOptionStatus),
       });
       return;
     }
 
-    if (parts.length === 3 && parts[0] === "agents" && method === "POST" && parts[2] === "ask") {
-      const name = parts[1];
+    if (parts.length === 3 && parts[0] === "agents" && method === "POST" && parts[2] === "model") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      const body = await readJson(req);
+      const model = typeof body.model === "string" ? body.model.trim() : "";
+      if (!model) {
+        const available = record.availableModels.map((item) => item.modelId);
+        writeJson(res, 400, {
+          error: available.length > 0 ? `missing 'model' field (available: ${available.join(", ")})` : "missing 'model' field",
+        });
+        return;
+      }
+      const session = findAgentSession(record, typeof body.sessionId === "string" ? body.sessionId : undefined);
+      if (!session) {
+        writeJson(res, 404, { error: "session_not_found" });
+        return;
+      }
+      await setAgentModel(record, session, model);
+      writeJson(res, 200, { ok: true, name: record.name, sessionId: session.sessionId, model });
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "agents" && method === "POST" && parts[2] === "cancel") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      const body = await readJson(req);
+      const requested = typeof body.sessionId === "string" ? findAgentSession(record, body.sessionId) : undefined;
+      if (typeof body.sessionId === "string" && !requested) {
+        writeJson(res, 404, { error: "session_not_found" });
+        return;
+      }
+      writeJson(res, 200, { ok: true, name: record.name, ...(await cancelAgentPrompts(record, requested)) });
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "agents" && method === "GET" && parts[2] === "history") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      const params = requestUrl(req).searchParams;
+      const limit = Number(params.get("limit") || "0");
+      if (!Number.isInteger(limit) || limit < 0) {
+        writeJson(res, 400, { error: "limit must be a non-negative integer" });
+        return;
+      }
+      const since = params.get("since") || undefined;
+      if (since && !/^\d+$/.test(since) && Number.isNaN(Date.parse(since))) {
+        writeJson(res, 400, { error: "since must be a sequence number or ISO timestamp" });
+        return;
+      }
+      const entries = queryHistory(record, { limit, since, sessionId: params.get("sessionId") || undefined });
+      writeJson(res, 200, { name: record.name, lastSeq: record.historySeq, entries });
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "agents" && method === "GET" && parts[2] === "queue") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      writeJson(res, 200, { name: record.name, items: toQueueStatus(record) });
+      return;
+    }
+
+    if (parts.length >= 3 && parts.length <= 4 && parts[0] === "agents" && method === "DELETE" && parts[2] === "queue") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      const queueId = parts[3];
+      if (queueId && !record.promptQueue.some((item) => item.id === queueId)) {
+        writeJson(res, 404, { error: "queue_item_not_found" });
+        return;
+      }
+      const cancelled = cancelQueuedPrompts(record, `Queued ask cancelled on ${record.name}`, (item) => !queueId || item.id === queueId);
+      writeJson(res, 200, { ok: true, name: record.name, cancelled });
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "agents" && method === "GET" && parts[2] === "plan") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      writeJson(res, 200, { name: record.name, state: record.state, plan: toPlanStatus(record.plan) });
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "agents" && method === "GET" && parts[2] === "tool-calls") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      const sessionId = requestUrl(req).searchParams.get("sessionId");
+      writeJson(
+        res,
+        200,
+        record.toolCalls.filter((item) => !sessionId || item.sessionId === sessionId),
+      );
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "agents" && method === "GET" && parts[2] === "terminals") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      writeJson(
+        res,
+        200,
+        Array.from(record.terminals.values()).map((terminal) => toTerminalStatus(terminal)),
+      );
+      return;
+    }
+
+    if (
+      parts.length === 5 &&
+      parts[0] === "agents" &&
+      method === "GET" &&
+      parts[2] === "terminals" &&
+      parts[4] === "output"
+    ) {
+      const record = agents.get(parts[1]);
+      const terminal = record?.terminals.get(parts[3]);
+      if (!record || !terminal) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      writeJson(res, 200, {
+        ...toTerminalStatus(terminal),
+        output: terminal.output,
+      });
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "agents" && parts[2] === "sessions" && (method === "GET" || method === "POST")) {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      if (method === "GET") {
+        writeJson(
+          res,
+          200,
+          Array.from(record.sessions.values()).map((session) => toSessionStatus(session)),
+        );
+        return;
+      }
       const body = await readJson(req);
-      if (!body.prompt || typeof body.prompt !== "string") {
-        writeJson(res, 400, { error: "prompt is required" });
+      const sessionName = typeof body.name === "string" && body.name.trim() ? body.name.trim() : undefined;
+      const session = await createAgentSession(record, sessionName);
+      writeJson(res, 201, toSessionStatus(session));
+      return;
+    }
+
+    if (parts.length === 4 && parts[0] === "agents" && parts[2] === "sessions" && method === "DELETE") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
         return;
       }
+      const session = findAgentSession(record, parts[3]);
+      if (!session) {
+        writeJson(res, 404, { error: "session_not_found" });
+        return;
+      }
+      await deleteAgentSession(record, session);
+      writeJson(res, 200, { ok: true, name: record.name, sessionId: session.sessionId });
+      return;
+    }
+
+    if (parts.length === 3 && parts[0] === "agents" && method === "POST" && parts[2] === "ask") {
+      const name = parts[1];
+      const body = await readJson(req);
+      const { prompt, options } = await parseAskBody(name, body);
       const stream = requestUrl(req).searchParams.get("stream") === "true";
       if (!stream) {
-        const result = await askAgent(name, body.prompt);
+        const result = await askAgent(name, prompt, options);
         writeJson(res, 200, result);
         return;
       }
@@ -1539,8 +4721,11 @@ async function handler(req: IncomingMessage, res: ServerResponse): Promise<void>
       res.flushHeaders();
 
       try {
-        const result = await askAgent(name, body.prompt, (chunk) => {
-          writeSse(res, "chunk", { chunk });
+        const result = await askAgent(name, prompt, {
+          ...options,
+          onEvent: (event, data) => {
+            writeSse(res, event, data);
+          },
         });
         writeSse(res, "done", result);
       } catch (error) {
@@ -1556,6 +4741,120 @@ async function handler(req: IncomingMessage, res: ServerResponse): Promise<void>
       return;
     }
 
+    if (parts.length === 3 && parts[0] === "agents" && method === "POST" && parts[2] === "asks") {
+      const name = parts[1];
+      const body = await readJson(req);
+      const { prompt, options } = await parseAskBody(name, body);
+      const job = startAskJob(name, prompt, options);
+      writeJson(res, 202, toAskJobStatus(job));
+      return;
+    }
+
+    if (parts.length === 1 && parts[0] === "permissions" && method === "GET") {
+      const agentFilter = requestUrl(req).searchParams.get("agent");
+      const permissions = Array.from(agents.values())
+        .filter((record) => !agentFilter || record.name === agentFilter)
+        .flatMap((record) => record.pendingPermissions.map((item) => toPermissionStatus(record, item)))
+        .sort((a, b) => a.requestId - b.requestId);
+      writeJson(res, 200, { permissions });
+      return;
+    }
+
+    if (parts.length === 2 && parts[0] === "audit" && parts[1] === "permissions" && method === "GET") {
+      const params = requestUrl(req).searchParams;
+      const limit = Number(params.get("limit") || "0");
+      if (!Number.isInteger(limit) || limit < 0) {
+        writeJson(res, 400, { error: "limit must be a non-negative integer" });
+        return;
+      }
+      const since = params.get("since") || undefined;
+      if (since && Number.isNaN(Date.parse(since))) {
+        writeJson(res, 400, { error: "since must be an ISO timestamp" });
+        return;
+      }
+      const entries = await readPermissionAudit({
+        agent: params.get("agent") || undefined,
+        sessionId: params.get("sessionId") || undefined,
+        decidedBy: params.get("decidedBy") || undefined,
+        since,
+        limit,
+      });
+      writeJson(res, 200, { path: join(resolveStateDir(), PERMISSION_AUDIT_FILE_NAME), entries });
+      return;
+    }
+
+    if (parts.length === 4 && parts[0] === "agents" && method === "GET" && parts[2] === "permissions" && parts[3] === "wait") {
+      const record = agents.get(parts[1]);
+      if (!record) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      const timeoutMs = Number(requestUrl(req).searchParams.get("timeout") || DEFAULT_PERMISSION_WAIT_MS);
+      if (!Number.isFinite(timeoutMs) || timeoutMs < 0) {
+        writeJson(res, 400, { error: "timeout must be a non-negative number of milliseconds" });
+        return;
+      }
+      const pending = await waitForPermission(record, Math.min(timeoutMs, MAX_PERMISSION_WAIT_MS), res);
+      if (res.destroyed) {
+        // The client went away while waiting; there is nobody left to answer.
+        return;
+      }
+      writeJson(res, 200, {
+        name: record.name,
+        timedOut: pending === null,
+        permission: pending ? toPermissionStatus(record, pending) : null,
+      });
+      return;
+    }
+
+    if (parts.length === 1 && parts[0] === "events" && method === "GET") {
+      const params = requestUrl(req).searchParams;
+      const agentFilter = params.get("agent");
+      const taskFilter = params.get("task");
+      const requestedEventId = Number(req.headers["last-event-id"] ?? params.get("lastEventId") ?? "0") || 0;
+      // An id this daemon never issued comes from a run whose last events were not journaled; replay everything.
+      const lastEventId = requestedEventId < nextDaemonEventId ? requestedEventId : 0;
+      const matches = (event: DaemonEvent) =>
+        event.id > lastEventId && (!agentFilter || event.agent === agentFilter) && (!taskFilter || event.taskId === taskFilter);
+      const backlog = recentDaemonEvents.filter(matches);
+      if (params.get("follow") === "false") {
+        writeJson(res, 200, { events: backlog, lastEventId: nextDaemonEventId - 1 });
+        return;
+      }
+
+      res.statusCode = 200;
+      res.setHeader("content-type", "text/event-stream; charset=utf-8");
+      res.setHeader("cache-control", "no-cache");
+      res.setHeader("connection", "keep-alive");
+      res.flushHeaders();
+      for (const event of backlog) {
+        writeSse(res, event.type, event, event.id);
+      }
+      const listener: DaemonEventListener = (event) => {
+        if (matches(event)) {
+          writeSse(res, event.type, event, event.id);
+        }
+      };
+      daemonEventListeners.add(listener);
+      const heartbeat = setInterval(() => res.write(": ping\n\n"), EVENT_HEARTBEAT_MS);
+      // The request side closes as soon as its (empty) body is read; the response closes with the connection.
+      res.on("close", () => {
+        clearInterval(heartbeat);
+        daemonEventListeners.delete(listener);
+      });
+      return;
+    }
+
+    if (parts.length === 2 && parts[0] === "asks" && method === "GET") {
+      const job = askJobs.get(parts[1]);
+      if (!job) {
+        writeJson(res, 404, { error: "not_found" });
+        return;
+      }
+      writeJson(res, 200, toAskJobStatus(job));
+      return;
+    }
+
     if (parts.length === 2 && parts[0] === "agents" && method === "DELETE") {
       const ok = await stopAgent(parts[1]);
       if (!ok) {
@@ -1611,6 +4910,7 @@ async function handler(req: IncomingMessage, res: ServerResponse): Promise<void>
           id: subtask.id,
           agent: subtask.agent,
           prompt: subtask.prompt,
+          model: subtask.model,
           dependsOn: subtask.dependsOn,
           state: subtask.state,
           result: subtask.result,
@@ -1756,10 +5056,15 @@ function main(): void {
       })
     : Promise.resolve();
 
+  const savedAgents = restorePersistedState();
+
   proxyReady.then(() => {
   const server = createServer((req, res) => {
     void handler(req, res);
   });
+  server.on("upgrade", (req, socket, head) => {
+    handleUpgrade(req, socket, head);
+  });
   const cleanupInterval = setInterval(() => {
     cleanupCompletedTasks();
   }, 60000);
@@ -1788,14 +5093,31 @@ function main(): void {
     process.stdout.write(
       JSON.stringify({ ok: true, event: "listening", host, port }) + "\n",
     );
+    if (savedAgents.length > 0 && shouldRespawnAgents()) {
+      void respawnPersistedAgents(savedAgents);
+    }
   });
 
   const shutdown = async () => {
     clearInterval(cleanupInterval);
+    // Journal live agents before stopping them so they can be respawned on next start.
+    if (stateFlushTimer) {
+      clearTimeout(stateFlushTimer);
+      stateFlushTimer = null;
+    }
+    flushState();
+    statePersistenceEnabled = false;
     for (const name of Array.from(agents.keys())) {
       await stopAgent(name);
     }
+    // Stopping agents answers their pending permissions; let those audit lines reach the disk.
+    await closePermissionAudit();
     server.close(() => process.exit(0));
+    // Event stream subscribers hold their connections open indefinitely.
+    server.closeAllConnections();
+    for (const peer of Array.from(webSocketPeers)) {
+      peer.close(1001, "daemon shutting down");
+    }
   };
 
   process.on("SIGINT", () => {